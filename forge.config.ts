@@ -75,6 +75,12 @@ const config: ForgeConfig = {
           config: 'vite.main.config.ts',
           target: 'main',
         },
+        {
+          // Worker thread for page rendering and layout inference
+          entry: 'src/main/pipeline/pipeline-worker.ts',
+          config: 'vite.main.config.ts',
+          target: 'main',
+        },
         {
           entry: 'src/preload/preload.ts',
           config: 'vite.preload.config.ts',
@@ -0,0 +1,414 @@
+/**
+ * Headless command-line entry point: drives runPipeline without Electron.
+ *
+ *   pdf2zh translate in.pdf -o out.pdf --pages 1-5 --to ja --translator llm
+ *   pdf2zh typeset in.pdf in_translated.json -o out.pdf
+ *   pdf2zh estimate in.pdf --translator llm --llm-model gpt-4o
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import { parseArgs } from 'node:util';
+import { runPipeline, typesetDocument, TypesetOptions, estimatePdf } from '../main/pipeline';
+import { resolveAssets } from '../main/pipeline/assets';
+import { layoutModelFromFile } from '../main/pipeline/layout-models';
+import { TranslationCache } from '../main/pipeline/translator/cache';
+import { CostEstimate } from '../main/pipeline/estimate';
+import { AppSettings, DEFAULT_SETTINGS, ProgressEvent, StageTimings } from '../main/pipeline/types';
+import { protectionRules } from '../main/pipeline/protected-text';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_CANCELLED = 130;
+
+const USAGE = `Usage: pdf2zh translate <input.pdf> [options]
+       pdf2zh typeset <input.pdf> <translations.json> [-o <path>] [--font <path>] [--bold-font <path>] [--json]
+       pdf2zh estimate <input.pdf> [options]
+
+typeset writes the output PDF from a translation document exported with
+--export-json (edit translatedText in it first), skipping layout analysis and translation.
+estimate analyses the pages and prints region, character and token counts and,
+for --translator llm, an estimated price, without translating.
+
+Options:
+  -o, --output <path>       Output PDF (default: <input>_translated.pdf)
+  -p, --pages <ranges>      Pages to translate, e.g. 1-5,8,10-12 (default: all)
+  -f, --from <lang>         Source language or "auto" (default: ${DEFAULT_SETTINGS.sourceLanguage})
+  -t, --to <lang>           Target language (default: ${DEFAULT_SETTINGS.targetLanguage})
+      --translator <type>   google | llm (default: ${DEFAULT_SETTINGS.translatorType})
+      --provider <name>     LLM provider (default: ${DEFAULT_SETTINGS.llmProvider})
+      --llm-model <id>      LLM model id (default: ${DEFAULT_SETTINGS.llmModel})
+      --api-key <token>     LLM API key (default: $PDF2ZH_API_KEY)
+      --prompt <text>       Custom system prompt for the LLM translator
+      --settings <path>     Load settings from a pdf2zh-settings.json file
+      --cache <path>        Reuse and extend a translation cache file (.jsonl)
+      --checkpoint-dir <dir> Save per-page checkpoints and resume interrupted runs
+      --layout-model <path> ONNX layout model (default: bundled assets/); reads
+                            input size, class map etc. from a <model>.json next to it
+      --fast-layout         Skip the layout model and group the text layer into
+                            paragraphs (also used when the model cannot be loaded)
+      --force-ocr           OCR every page instead of only pages without a text layer
+      --tables              Split tables into cells and translate the text cells
+      --protect <regex>     Never translate text matching <regex> (repeatable)
+      --no-protect          Also translate URLs, DOIs, e-mails, citations and code,
+                            which are kept as they are by default
+      --font <path>         Font for translated text (default: bundled assets/)
+      --bold-font <path>    Bold font for titles (default: bundled assets/)
+      --workers <n>         Worker threads for rendering/layout (default: CPUs - 1)
+      --export-json <path>  Also export the translations as an editable JSON document
+      --debug               Also write <output>_debug.pdf with the layout overlay
+      --json                Print progress and result as JSON lines on stdout
+  -h, --help                Show this help
+
+Exit codes: 0 success, 1 translation failed, 2 invalid usage, 130 cancelled.`;
+
+class UsageError extends Error {}
+
+/**
+ * Parse a page selection such as "1-5,8" into a sorted list of page numbers.
+ */
+function parsePageRanges(spec: string): number[] {
+  const pages = new Set<number>();
+  for (const part of spec.split(',')) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const match = /^(\d+)(?:-(\d+))?$/.exec(trimmed);
+    if (!match) {
+      throw new UsageError(`Invalid page range "${trimmed}"`);
+    }
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end < start) {
+      throw new UsageError(`Invalid page range "${trimmed}"`);
+    }
+    for (let p = start; p <= end; p++) pages.add(p);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+function loadLayoutModelSpec(modelPath: string) {
+  try {
+    return layoutModelFromFile(modelPath);
+  } catch (err: any) {
+    throw new UsageError(`Invalid layout model spec for "${modelPath}": ${err.message}`);
+  }
+}
+
+function loadSettingsFile(settingsPath: string): Partial<AppSettings> {
+  try {
+    return JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+  } catch (err: any) {
+    throw new UsageError(`Cannot read settings file "${settingsPath}": ${err.message}`);
+  }
+}
+
+/**
+ * Default assets directory: the repo's assets/ folder, two levels above the
+ * bundled script (.vite/cli/pdf2zh.js).
+ */
+function defaultAssetsDir(): string {
+  return path.resolve(__dirname, '..', '..', 'assets');
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatProgress(event: ProgressEvent): string {
+  const percent = `${Math.round(event.percent)}%`.padStart(4);
+  const pages = event.totalPages > 0 ? ` page ${event.currentPage}/${event.totalPages}` : '';
+  let line = `[${percent}]${pages} ${event.stage}`;
+  if (event.regionsTotal) line += ` · ${event.regionsDone}/${event.regionsTotal} regions`;
+  if (event.etaMs !== undefined) line += ` · ETA ${formatDuration(event.etaMs)}`;
+  if (event.usage && event.usage.totalCost > 0) line += ` · $${event.usage.totalCost.toFixed(4)}`;
+  return line;
+}
+
+function formatTimings(timings: StageTimings): string {
+  return (Object.keys(timings) as (keyof StageTimings)[])
+    .filter((stage) => timings[stage] > 0)
+    .map((stage) => `${stage} ${formatDuration(timings[stage])}`)
+    .join(', ');
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      pages: { type: 'string', short: 'p' },
+      from: { type: 'string', short: 'f' },
+      to: { type: 'string', short: 't' },
+      translator: { type: 'string' },
+      provider: { type: 'string' },
+      'llm-model': { type: 'string' },
+      'api-key': { type: 'string' },
+      prompt: { type: 'string' },
+      settings: { type: 'string' },
+      cache: { type: 'string' },
+      'checkpoint-dir': { type: 'string' },
+      'layout-model': { type: 'string' },
+      'fast-layout': { type: 'boolean', default: false },
+      'force-ocr': { type: 'boolean', default: false },
+      tables: { type: 'boolean', default: false },
+      protect: { type: 'string', multiple: true },
+      'no-protect': { type: 'boolean', default: false },
+      font: { type: 'string' },
+      'bold-font': { type: 'string' },
+      workers: { type: 'string' },
+      'export-json': { type: 'string' },
+      debug: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  const [command, input, documentArg] = positionals;
+  const typeset = command === 'typeset';
+  const estimate = command === 'estimate';
+  const validCommand = typeset
+    ? !!documentArg && positionals.length === 3
+    : (command === 'translate' || estimate) && !!input && positionals.length === 2;
+  if (!validCommand) {
+    throw new UsageError('Expected: pdf2zh translate|estimate <input.pdf> or pdf2zh typeset <input.pdf> <translations.json>');
+  }
+
+  const inputPath = path.resolve(input);
+  if (!fs.existsSync(inputPath)) {
+    throw new UsageError(`Input file not found: ${inputPath}`);
+  }
+  const ext = path.extname(inputPath);
+  const outputPath = values.output
+    ? path.resolve(values.output)
+    : path.join(path.dirname(inputPath), `${path.basename(inputPath, ext)}_translated${ext}`);
+  const json = values.json;
+  const emit = (record: Record<string, unknown>) => {
+    process.stdout.write(`${JSON.stringify(record)}\n`);
+  };
+  const onProgress = (event: ProgressEvent) => {
+    if (json) {
+      emit({ type: 'progress', ...event });
+    } else {
+      console.error(formatProgress(event));
+    }
+  };
+
+  const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    ...(values.settings ? loadSettingsFile(values.settings) : {}),
+  };
+  if (values.from) settings.sourceLanguage = values.from;
+  if (values.to) settings.targetLanguage = values.to;
+  if (values.translator) {
+    if (values.translator !== 'google' && values.translator !== 'llm') {
+      throw new UsageError(`Unknown translator "${values.translator}" (expected google or llm)`);
+    }
+    settings.translatorType = values.translator;
+  }
+  if (values.provider) settings.llmProvider = values.provider;
+  if (values['llm-model']) settings.llmModel = values['llm-model'];
+  settings.llmApiToken = values['api-key'] || process.env.PDF2ZH_API_KEY || settings.llmApiToken;
+  if (values.prompt) settings.customPrompt = values.prompt;
+  if (values.workers) {
+    const workers = Number(values.workers);
+    if (!Number.isInteger(workers) || workers < 1) {
+      throw new UsageError(`Invalid worker count "${values.workers}"`);
+    }
+    settings.workerThreads = workers;
+  }
+  if (values['fast-layout']) settings.layoutMode = 'fast';
+  if (values.tables) settings.translateTables = true;
+  if (values.protect) settings.protectPatterns = [...(settings.protectPatterns || []), ...values.protect];
+  if (values['no-protect']) settings.protectBuiltins = false;
+  try {
+    protectionRules(settings.protectPatterns || [], false);
+  } catch (err: any) {
+    throw new UsageError(err.message);
+  }
+
+  const defaults = resolveAssets(defaultAssetsDir());
+  const assets = {
+    layoutModel: values['layout-model'] ? loadLayoutModelSpec(path.resolve(values['layout-model'])) : defaults.layoutModel,
+    fontPath: values.font ? path.resolve(values.font) : defaults.fontPath,
+    boldFontPath: values['bold-font'] ? path.resolve(values['bold-font']) : defaults.boldFontPath,
+    ocr: defaults.ocr,
+  };
+  // A missing bundled model is not fatal: the pipeline falls back to the fast layout
+  const required = [assets.fontPath];
+  if (!typeset && values['layout-model']) required.push(assets.layoutModel.file);
+  for (const file of required) {
+    if (!fs.existsSync(file)) {
+      throw new UsageError(`Asset not found: ${file}`);
+    }
+  }
+
+  if (typeset) {
+    const documentPath = path.resolve(documentArg);
+    if (!fs.existsSync(documentPath)) {
+      throw new UsageError(`Translation document not found: ${documentPath}`);
+    }
+    return runTypeset({ inputPath, outputPath, documentPath, assets, onProgress }, json, emit);
+  }
+
+  const outputExt = path.extname(outputPath);
+  const debugOutputPath = values.debug || settings.debugOverlay
+    ? path.join(path.dirname(outputPath), `${path.basename(outputPath, outputExt)}_debug${outputExt}`)
+    : undefined;
+
+  const exportJsonPath = values['export-json'] ? path.resolve(values['export-json']) : undefined;
+
+  const selectedPages = values.pages ? parsePageRanges(values.pages) : undefined;
+
+  const abortController = new AbortController();
+  const abortSignal = abortController.signal;
+  process.once('SIGINT', () => {
+    abortController.abort();
+    if (!json) console.error('Cancelling...');
+  });
+
+  if (estimate) {
+    let result: CostEstimate;
+    try {
+      result = await estimatePdf({
+        inputPath,
+        settings,
+        assets,
+        selectedPages,
+        customPrompt: settings.customPrompt || undefined,
+        forceOcr: values['force-ocr'],
+        abortSignal,
+        onProgress,
+      });
+    } catch (err: any) {
+      if (json) {
+        emit({ type: 'result', success: false, cancelled: abortSignal.aborted, error: err.message || 'Unknown error' });
+      } else {
+        console.error(`Error: ${err.message || 'Unknown error'}`);
+      }
+      return abortSignal.aborted ? EXIT_CANCELLED : EXIT_FAILED;
+    }
+    if (json) {
+      emit({ type: 'result', success: true, estimate: result });
+    } else {
+      console.log(`Pages: ${result.pages}`);
+      console.log(`Regions: ${result.regions}`);
+      console.log(`Characters: ${result.characters}`);
+      console.log(`Tokens (est.): ${result.inputTokens} in / ${result.outputTokens} out`);
+      if (result.cost !== null) {
+        console.log(`Cost (est.): $${result.cost.toFixed(4)} with ${result.model}`);
+      }
+    }
+    return EXIT_OK;
+  }
+
+  try {
+    const result = await runPipeline({
+      inputPath,
+      outputPath,
+      settings,
+      assets,
+      selectedPages,
+      customPrompt: settings.customPrompt || undefined,
+      forceOcr: values['force-ocr'],
+      translationCache: values.cache ? new TranslationCache(path.resolve(values.cache)) : undefined,
+      checkpointDir: values['checkpoint-dir'] ? path.resolve(values['checkpoint-dir']) : undefined,
+      debugOutputPath,
+      exportJsonPath,
+      abortSignal,
+      onProgress,
+    });
+
+    if (json) {
+      emit({
+        type: 'result',
+        success: true,
+        outputPath,
+        debugOutputPath,
+        exportJsonPath,
+        sourceLanguage: result.sourceLanguage,
+        usage: result.usage,
+        warnings: result.warnings,
+        timings: result.timings,
+        elapsedMs: result.elapsedMs,
+        layoutFallback: result.layoutFallback,
+        ocrUnavailable: result.ocrUnavailable,
+        droppedText: result.droppedText,
+      });
+    } else {
+      console.log(outputPath);
+      if (debugOutputPath) console.log(debugOutputPath);
+      if (exportJsonPath) console.log(exportJsonPath);
+      console.error(`Source language: ${result.sourceLanguage}`);
+      if (result.layoutFallback) console.error(`Warning: ${result.layoutFallback}`);
+      if (result.ocrUnavailable) console.error(`Warning: ${result.ocrUnavailable}`);
+      console.error(`Time: ${formatDuration(result.elapsedMs)} (${formatTimings(result.timings)})`);
+      const usage = result.usage;
+      if (usage && (usage.inputTokens > 0 || usage.outputTokens > 0)) {
+        console.error(`Tokens: ${usage.inputTokens} in / ${usage.outputTokens} out · Cost: $${usage.totalCost.toFixed(4)}`);
+      }
+      if (usage && usage.cacheHits > 0) {
+        console.error(`Cache hits: ${usage.cacheHits}`);
+      }
+      for (const warning of result.warnings) {
+        console.error(`Warning: page ${warning.page} ${warning.className} left untranslated: ${warning.message}`);
+      }
+      for (const warning of result.droppedText) {
+        console.error(`Warning: page ${warning.page} ${warning.className}: ${warning.message}`);
+      }
+    }
+    return EXIT_OK;
+  } catch (err: any) {
+    const cancelled = abortSignal.aborted;
+    if (json) {
+      emit({ type: 'result', success: false, cancelled, error: err.message || 'Unknown error' });
+    } else {
+      console.error(`Error: ${err.message || 'Unknown error'}`);
+    }
+    return cancelled ? EXIT_CANCELLED : EXIT_FAILED;
+  }
+}
+
+async function runTypeset(
+  options: TypesetOptions,
+  json: boolean,
+  emit: (record: Record<string, unknown>) => void
+): Promise<number> {
+  try {
+    await typesetDocument(options);
+    if (json) {
+      emit({ type: 'result', success: true, outputPath: options.outputPath });
+    } else {
+      console.log(options.outputPath);
+    }
+    return EXIT_OK;
+  } catch (err: any) {
+    if (json) {
+      emit({ type: 'result', success: false, error: err.message || 'Unknown error' });
+    } else {
+      console.error(`Error: ${err.message || 'Unknown error'}`);
+    }
+    return EXIT_FAILED;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    if (err instanceof UsageError || String(err?.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`Error: ${err.message}\n\n${USAGE}`);
+      process.exit(EXIT_USAGE);
+    }
+    console.error(err);
+    process.exit(EXIT_FAILED);
+  }
+);
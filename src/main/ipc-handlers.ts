@@ -6,7 +6,13 @@ import path from 'node:path';
 import fs from 'node:fs';
 import os from 'node:os';
 import { getModels } from '@mariozechner/pi-ai';
-import { runPipeline } from './pipeline';
+import { runPipeline, typesetDocument, estimatePdf } from './pipeline';
+import { resolveAssets, PipelineAssets } from './pipeline/assets';
+import { ocrModelsAvailable } from './pipeline/ocr';
+import { listLayoutModels, importLayoutModel, removeLayoutModel, DEFAULT_LAYOUT_MODEL_ID } from './pipeline/layout-models';
+import { TranslationCache } from './pipeline/translator/cache';
+import { JobCheckpoint } from './pipeline/checkpoint';
+import { JobManager, JobRequest, JobControl, JobResult } from './job-manager';
 import { AppSettings, DEFAULT_SETTINGS } from './pipeline/types';
 import { NodeCanvasFactory } from './pipeline/page-renderer';
 import { createCanvas } from 'canvas';
@@ -23,7 +29,24 @@ function compareVersions(a: string, b: string): number {
 }
 
 const SETTINGS_FILE = 'pdf2zh-settings.json';
-let abortFlag = { aborted: false };
+const TRANSLATION_CACHE_FILE = 'translation-cache.jsonl';
+const CHECKPOINTS_DIR = 'jobs';
+const LAYOUT_MODELS_DIR = 'layout-models';
+let translationCache: TranslationCache | null = null;
+let jobManager: JobManager | null = null;
+/** Running estimates by input path, so the renderer can cancel them */
+const estimates = new Map<string, AbortController>();
+
+/**
+ * Resolve the bundled assets directory. In dev, assets/ is at project root;
+ * in production, it's in the app's resources directory.
+ */
+function getAssetsDir(): string {
+  if (app.isPackaged) {
+    return path.join(process.resourcesPath, 'assets');
+  }
+  return path.join(app.getAppPath(), 'assets');
+}
 
 function getSettingsPath(): string {
   return path.join(app.getPath('userData'), SETTINGS_FILE);
@@ -42,6 +65,128 @@ function saveSettings(settings: AppSettings): void {
   fs.writeFileSync(getSettingsPath(), JSON.stringify(settings, null, 2));
 }
 
+/**
+ * Try to move a file written to the temp dir next to the input file.
+ * Returns the final path (the temp path if the input's folder isn't writable).
+ */
+function moveNextToInput(tempPath: string, inputPath: string): string {
+  const preferredPath = path.join(path.dirname(inputPath), path.basename(tempPath));
+  try {
+    fs.copyFileSync(tempPath, preferredPath);
+    fs.unlinkSync(tempPath);
+    return preferredPath;
+  } catch {
+    // Permission denied — keep temp path
+    return tempPath;
+  }
+}
+
+/** Imported layout models and their registry.json */
+function getLayoutModelsDir(): string {
+  return path.join(app.getPath('userData'), LAYOUT_MODELS_DIR);
+}
+
+/** Assets for a run, using the layout model picked in settings */
+function resolveRunAssets(settings: AppSettings): PipelineAssets {
+  try {
+    return resolveAssets(getAssetsDir(), settings.layoutModelId, getLayoutModelsDir());
+  } catch {
+    // The selected imported model was removed from disk; run with the default one
+    const assets = resolveAssets(getAssetsDir(), DEFAULT_LAYOUT_MODEL_ID, getLayoutModelsDir());
+    return {
+      ...assets,
+      layoutFallback: `Layout model "${settings.layoutModelId}" is no longer installed; used "${assets.layoutModel.name}" instead`,
+    };
+  }
+}
+
+function getCheckpointDir(): string {
+  return path.join(app.getPath('userData'), CHECKPOINTS_DIR);
+}
+
+function getTranslationCache(): TranslationCache {
+  if (!translationCache) {
+    translationCache = new TranslationCache(path.join(app.getPath('userData'), TRANSLATION_CACHE_FILE));
+  }
+  return translationCache;
+}
+
+/**
+ * Run one translation job. Output is written to a private temp directory
+ * first (always writable, and concurrent jobs on same-named files don't
+ * collide), then moved next to the input.
+ */
+async function runTranslationJob(request: JobRequest, control: JobControl): Promise<JobResult> {
+  const { inputPath, selectedPages, customPrompt, forceOcr } = request;
+  const settings = loadSettings();
+
+  const ext = path.extname(inputPath);
+  const base = path.basename(inputPath, ext);
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf2zh-'));
+  const tempOutput = path.join(tempDir, `${base}_translated${ext}`);
+  const tempDebugOutput = settings.debugOverlay
+    ? path.join(tempDir, `${base}_translated_debug${ext}`)
+    : undefined;
+  const tempJsonOutput = settings.exportJson
+    ? path.join(tempDir, `${base}_translated.json`)
+    : undefined;
+
+  try {
+    const pipelineResult = await runPipeline({
+      inputPath,
+      outputPath: tempOutput,
+      settings,
+      assets: resolveRunAssets(settings),
+      selectedPages,
+      customPrompt,
+      forceOcr,
+      concurrentJobs: settings.maxConcurrentJobs,
+      translationCache: getTranslationCache(),
+      checkpointDir: getCheckpointDir(),
+      debugOutputPath: tempDebugOutput,
+      exportJsonPath: tempJsonOutput,
+      abortSignal: control.abortSignal,
+      waitWhilePaused: control.waitWhilePaused,
+      onProgress: control.onProgress,
+    });
+
+    return {
+      outputPath: moveNextToInput(tempOutput, inputPath),
+      debugOutputPath: tempDebugOutput ? moveNextToInput(tempDebugOutput, inputPath) : undefined,
+      jsonOutputPath: tempJsonOutput ? moveNextToInput(tempJsonOutput, inputPath) : undefined,
+      usage: pipelineResult.usage,
+      warnings: pipelineResult.warnings,
+      timings: pipelineResult.timings,
+      elapsedMs: pipelineResult.elapsedMs,
+      layoutFallback: pipelineResult.layoutFallback,
+      ocrUnavailable: pipelineResult.ocrUnavailable,
+      droppedText: pipelineResult.droppedText,
+    };
+  } finally {
+    // Left in place only if an output couldn't be moved next to the input
+    try {
+      fs.rmdirSync(tempDir);
+    } catch {
+      // not empty
+    }
+  }
+}
+
+function getJobManager(): JobManager {
+  if (!jobManager) {
+    jobManager = new JobManager(
+      runTranslationJob,
+      () => loadSettings().maxConcurrentJobs,
+      (info) => {
+        for (const win of BrowserWindow.getAllWindows()) {
+          if (!win.isDestroyed()) win.webContents.send('job-update', info);
+        }
+      }
+    );
+  }
+  return jobManager;
+}
+
 export function registerIpcHandlers(): void {
   // List models for a provider
   ipcMain.handle('list-models', (_event, provider: string) => {
@@ -64,6 +209,28 @@ export function registerIpcHandlers(): void {
     return true;
   });
 
+  // Translation cache size
+  ipcMain.handle('get-translation-cache-info', () => {
+    return getTranslationCache().info();
+  });
+
+  // Clear translation cache
+  ipcMain.handle('clear-translation-cache', () => {
+    getTranslationCache().clear();
+    return true;
+  });
+
+  // Number of pages already finished by an interrupted run with the current settings
+  ipcMain.handle('get-resume-info', (_event, inputPath: string, forceOcr?: boolean) => {
+    try {
+      const settings = loadSettings();
+      const checkpoint = JobCheckpoint.find(getCheckpointDir(), inputPath, settings, settings.customPrompt || undefined, forceOcr);
+      return { completedPages: checkpoint ? checkpoint.completedPages().length : 0 };
+    } catch {
+      return { completedPages: 0 };
+    }
+  });
+
   // Open file dialog (multi-selection)
   ipcMain.handle('open-file-dialog', async () => {
     const result = await dialog.showOpenDialog({
@@ -74,6 +241,52 @@ export function registerIpcHandlers(): void {
     return result.filePaths;
   });
 
+  // Layout models: bundled plus imported ones
+  ipcMain.handle('list-layout-models', () => {
+    try {
+      return listLayoutModels(getAssetsDir(), getLayoutModelsDir());
+    } catch (err: any) {
+      console.error('Failed to read layout model registry:', err);
+      return listLayoutModels(getAssetsDir());
+    }
+  });
+
+  // Copy a local ONNX layout model into the user models directory
+  ipcMain.handle('import-layout-model', async () => {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: [{ name: 'ONNX Models', extensions: ['onnx'] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) return null;
+    try {
+      const existingIds = listLayoutModels(getAssetsDir(), getLayoutModelsDir()).map((m) => m.id);
+      const model = importLayoutModel(getLayoutModelsDir(), result.filePaths[0], existingIds);
+      return { success: true, model };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Unknown error' };
+    }
+  });
+
+  // Remove an imported layout model; falls back to the default model if it was selected
+  ipcMain.handle('remove-layout-model', (_event, id: string) => {
+    const removed = removeLayoutModel(getLayoutModelsDir(), id);
+    const settings = loadSettings();
+    if (removed && settings.layoutModelId === id) {
+      saveSettings({ ...settings, layoutModelId: DEFAULT_LAYOUT_MODEL_ID });
+    }
+    return removed;
+  });
+
+  // Pick a translation document exported by an earlier run
+  ipcMain.handle('open-json-dialog', async () => {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: [{ name: 'Translation Documents', extensions: ['json'] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) return null;
+    return result.filePaths[0];
+  });
+
   // Get PDF page thumbnails
   ipcMain.handle('get-pdf-thumbnails', async (_event, filePath: string) => {
     const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
@@ -108,56 +321,109 @@ export function registerIpcHandlers(): void {
     return { pageCount, thumbnails };
   });
 
-  // Translate PDF
-  ipcMain.handle('translate-pdf', async (event, inputPath: string, selectedPages?: number[], customPrompt?: string) => {
-    abortFlag = { aborted: false };
-    const settings = loadSettings();
+  // Translation jobs
+  ipcMain.handle('start-job', (_event, inputPath: string, selectedPages?: number[], customPrompt?: string, forceOcr?: boolean) => {
+    return getJobManager().add({ inputPath, selectedPages, customPrompt, forceOcr });
+  });
 
-    // Generate output path in temp dir (always writable), then copy to final location
-    const ext = path.extname(inputPath);
-    const base = path.basename(inputPath, ext);
-    const tempOutput = path.join(os.tmpdir(), `${base}_translated${ext}`);
-    // Try writing next to input first; fall back to temp dir
-    const preferredOutput = path.join(path.dirname(inputPath), `${base}_translated${ext}`);
-    let outputPath: string;
+  ipcMain.handle('list-jobs', () => {
+    return getJobManager().list();
+  });
 
-    const win = BrowserWindow.fromWebContents(event.sender);
+  ipcMain.handle('pause-job', (_event, jobId: string) => {
+    return getJobManager().pause(jobId);
+  });
+
+  ipcMain.handle('resume-job', (_event, jobId: string) => {
+    return getJobManager().resume(jobId);
+  });
+
+  ipcMain.handle('cancel-job', (_event, jobId: string) => {
+    return getJobManager().cancel(jobId);
+  });
+
+  ipcMain.handle('clear-finished-jobs', () => {
+    getJobManager().clearFinished();
+    return true;
+  });
+
+  // Whether scanned pages can be read, and where the OCR models go if not
+  ipcMain.handle('get-ocr-status', () => {
+    const { ocr } = resolveAssets(getAssetsDir());
+    return { available: ocrModelsAvailable(ocr), modelsDir: path.dirname(ocr.detModel) };
+  });
 
+  // Estimate size and cost without translating
+  ipcMain.handle('estimate-pdf', async (event, inputPath: string, selectedPages?: number[], customPrompt?: string, forceOcr?: boolean) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    // A new estimate for the same file replaces the one still running
+    estimates.get(inputPath)?.abort();
+    const controller = new AbortController();
+    estimates.set(inputPath, controller);
     try {
-      // Write to temp first to avoid permission issues
-      const pipelineResult = await runPipeline({
+      const settings = loadSettings();
+      const estimate = await estimatePdf({
         inputPath,
-        outputPath: tempOutput,
         settings,
+        assets: resolveRunAssets(settings),
         selectedPages,
         customPrompt,
-        abortSignal: abortFlag,
+        forceOcr,
+        abortSignal: controller.signal,
         onProgress: (progress) => {
           if (win && !win.isDestroyed()) {
-            win.webContents.send('translation-progress', progress);
+            win.webContents.send('estimate-progress', { inputPath, ...progress });
           }
         },
       });
-
-      // Try to copy to preferred location next to input
-      try {
-        fs.copyFileSync(tempOutput, preferredOutput);
-        outputPath = preferredOutput;
-        fs.unlinkSync(tempOutput);
-      } catch {
-        // Permission denied — keep temp path
-        outputPath = tempOutput;
-      }
-
-      return { success: true, outputPath, usage: pipelineResult.usage };
+      return { success: true, estimate };
     } catch (err: any) {
+      if (controller.signal.aborted) return { success: false, cancelled: true };
       return { success: false, error: err.message || 'Unknown error' };
+    } finally {
+      if (estimates.get(inputPath) === controller) estimates.delete(inputPath);
     }
   });
 
-  // Cancel translation
-  ipcMain.on('cancel-translation', () => {
-    abortFlag.aborted = true;
+  ipcMain.handle('cancel-estimate', (_event, inputPath: string) => {
+    const controller = estimates.get(inputPath);
+    controller?.abort();
+    return !!controller;
+  });
+
+  // Write the output PDF from an (edited) translation document
+  ipcMain.handle('typeset-pdf', async (event, inputPath: string, documentPath: string) => {
+    const ext = path.extname(inputPath);
+    const base = path.basename(inputPath, ext);
+    // Private temp directory, as for translation jobs
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf2zh-'));
+    const tempOutput = path.join(tempDir, `${base}_translated${ext}`);
+    const win = BrowserWindow.fromWebContents(event.sender);
+
+    try {
+      await typesetDocument({
+        inputPath,
+        outputPath: tempOutput,
+        documentPath,
+        assets: resolveAssets(getAssetsDir()),
+        onProgress: (progress) => {
+          if (win && !win.isDestroyed()) {
+            win.webContents.send('translation-progress', progress);
+          }
+        },
+      });
+      return { success: true, outputPath: moveNextToInput(tempOutput, inputPath) };
+    } catch (err: any) {
+      fs.rmSync(tempOutput, { force: true });
+      return { success: false, error: err.message || 'Unknown error' };
+    } finally {
+      // Left in place only if the output couldn't be moved next to the input
+      try {
+        fs.rmdirSync(tempDir);
+      } catch {
+        // not empty
+      }
+    }
   });
 
   // Open file in system viewer
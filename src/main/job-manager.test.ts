@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { JobControl, JobInfo, JobManager, JobResult } from './job-manager';
+
+interface RunningJob {
+  inputPath: string;
+  control: JobControl;
+  finish: (result?: Partial<JobResult>) => void;
+  fail: (error: Error) => void;
+}
+
+/** A job manager whose jobs run until the test finishes or fails them */
+function setup(maxConcurrent = 1) {
+  const started: RunningJob[] = [];
+  const limit = { value: maxConcurrent };
+  const manager = new JobManager(
+    (request, control) => new Promise<JobResult>((resolve, reject) => {
+      started.push({
+        inputPath: request.inputPath,
+        control,
+        finish: (result) => resolve({ outputPath: 'out.pdf', warnings: [], droppedText: [], timings: {} as JobResult['timings'], elapsedMs: 0, ...result }),
+        fail: reject,
+      });
+    }),
+    () => limit.value,
+    () => undefined
+  );
+  const state = (info: JobInfo) => manager.list().find((job) => job.id === info.id)!.state;
+  return { manager, started, limit, state };
+}
+
+/** Let promise callbacks run */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('JobManager', () => {
+  it('runs up to the concurrency limit and queues the rest', () => {
+    const { manager, started, state } = setup(2);
+    const jobs = ['a.pdf', 'b.pdf', 'c.pdf'].map((inputPath) => manager.add({ inputPath }));
+    expect(jobs.map(state)).toEqual(['running', 'running', 'queued']);
+    expect(started.map((job) => job.inputPath)).toEqual(['a.pdf', 'b.pdf']);
+  });
+
+  it('starts the next job when one finishes', async () => {
+    const { manager, started, state } = setup(1);
+    const first = manager.add({ inputPath: 'a.pdf' });
+    const second = manager.add({ inputPath: 'b.pdf' });
+    started[0].finish();
+    await settle();
+    expect(state(first)).toBe('done');
+    expect(manager.list()[0].result?.outputPath).toBe('out.pdf');
+    expect(state(second)).toBe('running');
+  });
+
+  it('reports a failed job with its error', async () => {
+    const { manager, started } = setup(1);
+    manager.add({ inputPath: 'a.pdf' });
+    started[0].fail(new Error('no text layer'));
+    await settle();
+    expect(manager.list()[0]).toMatchObject({ state: 'failed', error: 'no text layer' });
+  });
+
+  it('keeps a pausing job in its slot until it stops at a page boundary', async () => {
+    const { manager, started, state } = setup(1);
+    const first = manager.add({ inputPath: 'a.pdf' });
+    const second = manager.add({ inputPath: 'b.pdf' });
+    manager.pause(first.id);
+    expect(state(first)).toBe('paused');
+    expect(state(second)).toBe('queued');
+
+    const waiting = started[0].control.waitWhilePaused();
+    expect(state(second)).toBe('running');
+
+    // Resumed, the paused job waits for the slot to come free
+    manager.resume(first.id);
+    expect(state(first)).toBe('queued');
+    started[1].finish();
+    await settle();
+    expect(state(first)).toBe('running');
+    await waiting;
+  });
+
+  it('lets a job resumed before its page boundary carry on in its slot', async () => {
+    const { manager, started, state } = setup(1);
+    const first = manager.add({ inputPath: 'a.pdf' });
+    const second = manager.add({ inputPath: 'b.pdf' });
+    manager.pause(first.id);
+    manager.resume(first.id);
+    expect(state(first)).toBe('running');
+    expect(state(second)).toBe('queued');
+    await started[0].control.waitWhilePaused();
+    expect(started).toHaveLength(1);
+  });
+
+  it('skips a paused queued job', () => {
+    const { manager, state } = setup(1);
+    manager.add({ inputPath: 'a.pdf' });
+    const second = manager.add({ inputPath: 'b.pdf' });
+    const third = manager.add({ inputPath: 'c.pdf' });
+    expect(manager.pause(second.id)).toBe(true);
+    expect(state(second)).toBe('paused');
+    expect(state(third)).toBe('queued');
+  });
+
+  it('cancels a running job and frees its slot once the pipeline stops', async () => {
+    const { manager, started, state } = setup(1);
+    const first = manager.add({ inputPath: 'a.pdf' });
+    const second = manager.add({ inputPath: 'b.pdf' });
+    expect(manager.cancel(first.id)).toBe(true);
+    expect(started[0].control.abortSignal.aborted).toBe(true);
+    expect(state(second)).toBe('queued');
+
+    started[0].fail(new Error('Translation cancelled'));
+    await settle();
+    expect(state(first)).toBe('cancelled');
+    expect(state(second)).toBe('running');
+  });
+
+  it('wakes a paused job when it is cancelled', async () => {
+    const { manager, started } = setup(1);
+    const first = manager.add({ inputPath: 'a.pdf' });
+    manager.pause(first.id);
+    const waiting = started[0].control.waitWhilePaused();
+    manager.cancel(first.id);
+    await waiting;
+  });
+
+  it('reads the concurrency limit on every decision', async () => {
+    const { manager, started, limit, state } = setup(1);
+    manager.add({ inputPath: 'a.pdf' });
+    const second = manager.add({ inputPath: 'b.pdf' });
+    const third = manager.add({ inputPath: 'c.pdf' });
+    limit.value = 3;
+    started[0].finish();
+    await settle();
+    expect([second, third].map(state)).toEqual(['running', 'running']);
+  });
+
+  it('forgets finished jobs only', async () => {
+    const { manager, started } = setup(1);
+    manager.add({ inputPath: 'a.pdf' });
+    manager.add({ inputPath: 'b.pdf' });
+    started[0].finish();
+    await settle();
+    manager.clearFinished();
+    expect(manager.list().map((job) => job.inputPath)).toEqual(['b.pdf']);
+  });
+
+  it('refuses to pause or resume jobs in the wrong state', () => {
+    const { manager } = setup(1);
+    const job = manager.add({ inputPath: 'a.pdf' });
+    expect(manager.resume(job.id)).toBe(false);
+    expect(manager.pause('job-unknown')).toBe(false);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Translation job manager: queues translation jobs, runs up to a configurable
+ * number at once, and lets each job be paused, resumed or cancelled by ID.
+ */
+import { ProgressEvent, PipelineWarning, StageTimings } from './pipeline/types';
+import { TranslatorUsage } from './pipeline/translator';
+
+export type JobState = 'queued' | 'running' | 'paused' | 'cancelled' | 'done' | 'failed';
+
+export interface JobRequest {
+  inputPath: string;
+  selectedPages?: number[];
+  customPrompt?: string;
+  /** OCR every page, ignoring the PDF's text layer */
+  forceOcr?: boolean;
+}
+
+export interface JobResult {
+  outputPath: string;
+  debugOutputPath?: string;
+  jsonOutputPath?: string;
+  usage?: TranslatorUsage;
+  warnings: PipelineWarning[];
+  timings: StageTimings;
+  elapsedMs: number;
+  /** Why a fallback layout was used instead of the selected model */
+  layoutFallback?: string;
+  /** Pages that needed OCR but could not get it, and why */
+  ocrUnavailable?: string;
+  /** Regions whose translation lost protected text or formulas */
+  droppedText: PipelineWarning[];
+}
+
+/** Snapshot of a job as sent to the renderer */
+export interface JobInfo {
+  id: string;
+  inputPath: string;
+  state: JobState;
+  progress?: ProgressEvent;
+  result?: JobResult;
+  error?: string;
+}
+
+/** Handed to the job runner so the pipeline can observe cancel and pause */
+export interface JobControl {
+  abortSignal: AbortSignal;
+  /** Resolves once the job may continue; called by the pipeline between pages */
+  waitWhilePaused: () => Promise<void>;
+  onProgress: (event: ProgressEvent) => void;
+}
+
+export type JobRunner = (request: JobRequest, control: JobControl) => Promise<JobResult>;
+
+interface Job {
+  info: JobInfo;
+  request: JobRequest;
+  abortController: AbortController;
+  started: boolean;
+  /** Whether the job's pipeline is running and so holds a slot; false while it waits paused and once it ends */
+  active: boolean;
+  /** Wakes the pipeline when a paused job is resumed or cancelled */
+  wake: (() => void) | null;
+}
+
+const FINISHED_STATES: Set<JobState> = new Set(['cancelled', 'done', 'failed']);
+
+export class JobManager {
+  private jobs: Job[] = [];
+  private nextId = 1;
+  private runner: JobRunner;
+  private getMaxConcurrent: () => number;
+  private onUpdate: (info: JobInfo) => void;
+
+  /**
+   * @param getMaxConcurrent - Read on every scheduling decision so settings changes apply immediately
+   * @param onUpdate - Called with a snapshot whenever a job's state or progress changes
+   */
+  constructor(runner: JobRunner, getMaxConcurrent: () => number, onUpdate: (info: JobInfo) => void) {
+    this.runner = runner;
+    this.getMaxConcurrent = getMaxConcurrent;
+    this.onUpdate = onUpdate;
+  }
+
+  /** Queue a job; it starts as soon as a slot is free */
+  add(request: JobRequest): JobInfo {
+    const job: Job = {
+      info: { id: `job-${this.nextId++}`, inputPath: request.inputPath, state: 'queued' },
+      request,
+      abortController: new AbortController(),
+      started: false,
+      active: false,
+      wake: null,
+    };
+    this.jobs.push(job);
+    this.emit(job);
+    this.schedule();
+    return { ...job.info };
+  }
+
+  list(): JobInfo[] {
+    return this.jobs.map((job) => ({ ...job.info }));
+  }
+
+  /**
+   * Pause a queued or running job. A running job stops at the next page
+   * boundary and only then gives up its slot until it is resumed.
+   */
+  pause(id: string): boolean {
+    const job = this.find(id);
+    if (!job || (job.info.state !== 'queued' && job.info.state !== 'running')) return false;
+    this.setState(job, 'paused');
+    return true;
+  }
+
+  /** Put a paused job back in the queue */
+  resume(id: string): boolean {
+    const job = this.find(id);
+    if (!job || job.info.state !== 'paused') return false;
+    this.setState(job, 'queued');
+    this.schedule();
+    return true;
+  }
+
+  cancel(id: string): boolean {
+    const job = this.find(id);
+    if (!job || FINISHED_STATES.has(job.info.state)) return false;
+    job.abortController.abort();
+    this.setState(job, 'cancelled');
+    this.wakeJob(job);
+    this.schedule();
+    return true;
+  }
+
+  /** Forget finished jobs */
+  clearFinished(): void {
+    this.jobs = this.jobs.filter((job) => !FINISHED_STATES.has(job.info.state));
+  }
+
+  private find(id: string): Job | undefined {
+    return this.jobs.find((job) => job.info.id === id);
+  }
+
+  private setState(job: Job, state: JobState): void {
+    job.info.state = state;
+    this.emit(job);
+  }
+
+  private emit(job: Job): void {
+    this.onUpdate({ ...job.info });
+  }
+
+  private wakeJob(job: Job): void {
+    const wake = job.wake;
+    job.wake = null;
+    wake?.();
+  }
+
+  /** Start or continue queued jobs, in order, while slots are free */
+  private schedule(): void {
+    const limit = Math.max(1, this.getMaxConcurrent());
+    let running = this.jobs.filter((job) => job.active).length;
+    for (const job of this.jobs) {
+      if (job.info.state !== 'queued') continue;
+      if (job.active) {
+        // Resumed before it reached a page boundary, so it still holds its slot
+        this.setState(job, 'running');
+        continue;
+      }
+      if (running >= limit) continue;
+      running++;
+      job.active = true;
+      this.setState(job, 'running');
+      if (job.started) {
+        this.wakeJob(job);
+      } else {
+        this.start(job);
+      }
+    }
+  }
+
+  private start(job: Job): void {
+    job.started = true;
+    const control: JobControl = {
+      abortSignal: job.abortController.signal,
+      waitWhilePaused: async () => {
+        while (job.info.state !== 'running' && !job.abortController.signal.aborted) {
+          // Waiting frees the job's slot for the next one in the queue
+          if (job.active) {
+            job.active = false;
+            this.schedule();
+          }
+          await new Promise<void>((resolve) => { job.wake = resolve; });
+        }
+      },
+      onProgress: (event) => {
+        job.info.progress = event;
+        this.emit(job);
+      },
+    };
+
+    this.runner(job.request, control).then(
+      (result) => {
+        job.info.result = result;
+        this.setState(job, 'done');
+      },
+      (err: any) => {
+        // A cancelled job's pipeline fails with "Translation cancelled"; keep the cancelled state
+        if (job.info.state !== 'cancelled') {
+          job.info.error = err?.message || 'Unknown error';
+          this.setState(job, 'failed');
+        }
+      }
+    ).finally(() => {
+      job.active = false;
+      this.schedule();
+    });
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Cancellation helpers shared by the pipeline stages and translators.
+ */
+
+export const CANCELLED_MESSAGE = 'Translation cancelled';
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(CANCELLED_MESSAGE);
+  }
+}
+
+/**
+ * Wait for `ms`, rejecting as soon as the signal is aborted.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(CANCELLED_MESSAGE));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(CANCELLED_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
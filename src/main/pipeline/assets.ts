@@ -0,0 +1,41 @@
+/**
+ * Locations of the model and font files the pipeline needs.
+ * Kept free of Electron so the pipeline can also run from the CLI.
+ */
+import path from 'node:path';
+import { LayoutModelSpec, DEFAULT_LAYOUT_MODEL_ID, findLayoutModel } from './layout-models';
+import type { OcrModelPaths } from './ocr';
+
+export interface PipelineAssets {
+  /** ONNX layout detection model, with an absolute file path */
+  layoutModel: LayoutModelSpec;
+  /** Set when layoutModel stands in for a selected model that is no longer installed */
+  layoutFallback?: string;
+  /** CJK font used for translated text */
+  fontPath: string;
+  /** Bold variant used for titles (optional) */
+  boldFontPath?: string;
+  /** Text detection and recognition models for scanned pages (optional) */
+  ocr?: OcrModelPaths;
+}
+
+/**
+ * Resolve the standard asset layout under an assets/ directory.
+ * @param layoutModelId - Registered layout model; imported models are looked up in userModelsDir
+ */
+export function resolveAssets(
+  assetsDir: string,
+  layoutModelId = DEFAULT_LAYOUT_MODEL_ID,
+  userModelsDir?: string
+): PipelineAssets {
+  return {
+    layoutModel: findLayoutModel(layoutModelId, assetsDir, userModelsDir),
+    fontPath: path.join(assetsDir, 'fonts', 'NotoSansSC-Regular.ttf'),
+    boldFontPath: path.join(assetsDir, 'fonts', 'NotoSansSC-Bold.ttf'),
+    ocr: {
+      detModel: path.join(assetsDir, 'models', 'ocr', 'ppocr_det.onnx'),
+      recModel: path.join(assetsDir, 'models', 'ocr', 'ppocr_rec.onnx'),
+      dictionary: path.join(assetsDir, 'models', 'ocr', 'ppocr_keys.txt'),
+    },
+  };
+}
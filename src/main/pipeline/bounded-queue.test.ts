@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BoundedQueue } from './bounded-queue';
+
+/** Whether a promise has settled after pending callbacks have run */
+async function isSettled(promise: Promise<unknown>): Promise<boolean> {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return settled;
+}
+
+describe('BoundedQueue', () => {
+  it('hands items over in order', async () => {
+    const queue = new BoundedQueue<number>(3);
+    await queue.put(1);
+    await queue.put(2);
+    expect(await queue.take()).toBe(1);
+    expect(await queue.take()).toBe(2);
+  });
+
+  it('makes put wait while the queue is full', async () => {
+    const queue = new BoundedQueue<number>(1);
+    await queue.put(1);
+    const second = queue.put(2);
+    expect(await isSettled(second)).toBe(false);
+    expect(await queue.take()).toBe(1);
+    expect(await second).toBe(true);
+    expect(await queue.take()).toBe(2);
+  });
+
+  it('makes take wait for an item', async () => {
+    const queue = new BoundedQueue<string>(1);
+    const taken = queue.take();
+    expect(await isSettled(taken)).toBe(false);
+    await queue.put('page');
+    expect(await taken).toBe('page');
+  });
+
+  it('drains the remaining items after close, then returns null', async () => {
+    const queue = new BoundedQueue<number>(2);
+    await queue.put(1);
+    queue.close();
+    expect(await queue.take()).toBe(1);
+    expect(await queue.take()).toBeNull();
+  });
+
+  it('refuses items once closed, also to a waiting producer', async () => {
+    const queue = new BoundedQueue<number>(1);
+    await queue.put(1);
+    const waiting = queue.put(2);
+    queue.close();
+    expect(await waiting).toBe(false);
+    expect(await queue.put(3)).toBe(false);
+  });
+
+  it('rethrows a producer error to the consumer once drained', async () => {
+    const queue = new BoundedQueue<number>(2);
+    await queue.put(1);
+    const error = new Error('render failed');
+    queue.fail(error);
+    expect(await queue.take()).toBe(1);
+    await expect(queue.take()).rejects.toBe(error);
+  });
+
+  it('wakes a waiting consumer with the error', async () => {
+    const queue = new BoundedQueue<number>(1);
+    const taken = queue.take();
+    queue.fail(new Error('render failed'));
+    await expect(taken).rejects.toThrow('render failed');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Minimal async FIFO with a capacity limit, used to hand analysed pages from
+ * the render/detect stage to the translation stage.
+ */
+export class BoundedQueue<T> {
+  private items: T[] = [];
+  private capacity: number;
+  private closed = false;
+  private error: unknown = null;
+  private waitingTakers: (() => void)[] = [];
+  private waitingPutters: (() => void)[] = [];
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  /**
+   * Add an item, waiting while the queue is full.
+   * Returns false if the queue was closed (the consumer has gone away).
+   */
+  async put(item: T): Promise<boolean> {
+    while (!this.closed && this.items.length >= this.capacity) {
+      await new Promise<void>((resolve) => this.waitingPutters.push(resolve));
+    }
+    if (this.closed) return false;
+    this.items.push(item);
+    this.wake(this.waitingTakers);
+    return true;
+  }
+
+  /**
+   * Take the next item, waiting while the queue is empty.
+   * Returns null once the queue is closed and drained; rethrows a producer error.
+   */
+  async take(): Promise<T | null> {
+    while (this.items.length === 0) {
+      if (this.error) throw this.error;
+      if (this.closed) return null;
+      await new Promise<void>((resolve) => this.waitingTakers.push(resolve));
+    }
+    const item = this.items.shift() as T;
+    this.wake(this.waitingPutters);
+    return item;
+  }
+
+  /** No more items will be added (or the consumer stopped early) */
+  close(): void {
+    this.closed = true;
+    this.wake(this.waitingTakers);
+    this.wake(this.waitingPutters);
+  }
+
+  /** Abort the queue with an error that the consumer will see on take() */
+  fail(error: unknown): void {
+    this.error = error;
+    this.close();
+  }
+
+  private wake(waiters: (() => void)[]): void {
+    for (const resolve of waiters.splice(0)) resolve();
+  }
+}
@@ -0,0 +1,88 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { computeJobId, JobCheckpoint } from './checkpoint';
+import { AppSettings, DEFAULT_SETTINGS } from './types';
+
+let tempDir: string;
+let inputPath: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf2zh-test-'));
+  inputPath = path.join(tempDir, 'input.pdf');
+  fs.writeFileSync(inputPath, '%PDF-1.4 test');
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function jobId(changes: Partial<AppSettings>, forceOcr?: boolean): string {
+  return computeJobId(inputPath, { ...DEFAULT_SETTINGS, ...changes }, undefined, forceOcr);
+}
+
+describe('computeJobId', () => {
+  it('is stable for the same file and settings', () => {
+    expect(jobId({})).toBe(jobId({}));
+  });
+
+  it('changes with the file contents', () => {
+    const before = jobId({});
+    fs.writeFileSync(inputPath, '%PDF-1.4 edited');
+    expect(jobId({})).not.toBe(before);
+  });
+
+  it.each<[string, Partial<AppSettings>]>([
+    ['target language', { targetLanguage: 'ja' }],
+    ['source language', { sourceLanguage: 'en' }],
+    ['translator', { translatorType: 'llm' }],
+    ['layout mode', { layoutMode: 'fast' }],
+    ['layout model', { layoutModelId: 'other-model' }],
+    ['layout thresholds', {
+      layoutThresholds: { ...DEFAULT_SETTINGS.layoutThresholds, title: { confidence: 0.5, iou: 0.45 } },
+    }],
+    ['table translation', { translateTables: true }],
+    ['built-in protection', { protectBuiltins: false }],
+    ['protect patterns', { protectPatterns: ['ACME'] }],
+  ])('changes with the %s', (_name, changes) => {
+    expect(jobId(changes)).not.toBe(jobId({}));
+  });
+
+  it('changes with forced OCR', () => {
+    expect(jobId({}, true)).not.toBe(jobId({}, false));
+  });
+
+  it('ignores settings that do not change the output', () => {
+    expect(jobId({ workerThreads: 3, maxConcurrentJobs: 2, debugOverlay: true })).toBe(jobId({}));
+  });
+
+  it('treats thresholds missing from stored settings as the defaults', () => {
+    expect(jobId({ layoutThresholds: undefined })).toBe(jobId({}));
+  });
+});
+
+describe('JobCheckpoint', () => {
+  it('refuses a second open of a job while the first holds it', () => {
+    const first = JobCheckpoint.open(tempDir, inputPath, DEFAULT_SETTINGS);
+    expect(() => JobCheckpoint.open(tempDir, inputPath, DEFAULT_SETTINGS)).toThrow(/already being translated/);
+    first.release();
+    JobCheckpoint.open(tempDir, inputPath, DEFAULT_SETTINGS).release();
+  });
+
+  it('takes over a lock left by a process that is gone', () => {
+    const dir = path.join(tempDir, computeJobId(inputPath, DEFAULT_SETTINGS));
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'job.lock'), '999999999');
+    expect(() => JobCheckpoint.open(tempDir, inputPath, DEFAULT_SETTINGS).release()).not.toThrow();
+  });
+
+  it('keeps saved pages across a release', () => {
+    const checkpoint = JobCheckpoint.open(tempDir, inputPath, DEFAULT_SETTINGS);
+    checkpoint.save(2, []);
+    checkpoint.release();
+    const found = JobCheckpoint.find(tempDir, inputPath, DEFAULT_SETTINGS);
+    expect(found?.completedPages()).toEqual([2]);
+    expect(found?.load(2)).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Per-page checkpoints so an interrupted translation can resume where it stopped.
+ * A job directory is keyed by the input file contents and the translation
+ * settings; it holds one JSON file per finished page.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { cacheScope } from './translator/cache';
+import { AppSettings, TranslatedRegion, resolveLayoutThresholds } from './types';
+
+const META_FILE = 'job.json';
+/** Holds the pid of the process running the job */
+const LOCK_FILE = 'job.lock';
+/** Bump when the saved pages change shape, so older checkpoints are not resumed */
+const CHECKPOINT_VERSION = 2;
+
+interface JobMeta {
+  inputPath: string;
+  targetLanguage: string;
+  createdAt: string;
+}
+
+/**
+ * Derive a stable job ID from the input file contents and everything that
+ * affects the translated output: the translator, the languages, and the
+ * settings that change how pages are analysed and what is translated.
+ */
+export function computeJobId(inputPath: string, settings: AppSettings, customPrompt?: string, forceOcr?: boolean): string {
+  const hash = crypto.createHash('sha256');
+  hash.update(fs.readFileSync(inputPath));
+  for (const part of [
+    String(CHECKPOINT_VERSION),
+    cacheScope(settings, customPrompt),
+    settings.sourceLanguage || '',
+    settings.targetLanguage || '',
+    settings.layoutMode || '',
+    settings.layoutModelId || '',
+    JSON.stringify(resolveLayoutThresholds(settings.layoutThresholds)),
+    String(!!settings.translateTables),
+    String(settings.protectBuiltins !== false),
+    JSON.stringify(settings.protectPatterns || []),
+    String(!!forceOcr),
+  ]) {
+    hash.update('\0');
+    hash.update(part);
+  }
+  return hash.digest('hex').slice(0, 32);
+}
+
+/** Whether a process is still running */
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    return err?.code === 'EPERM';
+  }
+}
+
+function pageFileName(pageNum: number): string {
+  return `page-${String(pageNum).padStart(4, '0')}.json`;
+}
+
+export class JobCheckpoint {
+  readonly dir: string;
+
+  private constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Open (or create) the checkpoint directory for a job and lock it, so a
+   * second run of the same job can't write into it or delete it. A lock left
+   * by a process that is gone is taken over.
+   *
+   * @throws Error if a running process holds the lock
+   */
+  static open(rootDir: string, inputPath: string, settings: AppSettings, customPrompt?: string, forceOcr?: boolean): JobCheckpoint {
+    const dir = path.join(rootDir, computeJobId(inputPath, settings, customPrompt, forceOcr));
+    fs.mkdirSync(dir, { recursive: true });
+    const metaPath = path.join(dir, META_FILE);
+    if (!fs.existsSync(metaPath)) {
+      const meta: JobMeta = {
+        inputPath,
+        targetLanguage: settings.targetLanguage,
+        createdAt: new Date().toISOString(),
+      };
+      fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+    }
+    const lockPath = path.join(dir, LOCK_FILE);
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+    } catch (err: any) {
+      if (err?.code !== 'EEXIST') throw err;
+      const owner = Number(fs.readFileSync(lockPath, 'utf-8'));
+      if (Number.isInteger(owner) && owner > 0 && isAlive(owner)) {
+        throw new Error('This file is already being translated with the same settings');
+      }
+      fs.writeFileSync(lockPath, String(process.pid));
+    }
+    return new JobCheckpoint(dir);
+  }
+
+  /**
+   * Find an existing checkpoint without creating one.
+   */
+  static find(rootDir: string, inputPath: string, settings: AppSettings, customPrompt?: string, forceOcr?: boolean): JobCheckpoint | null {
+    const dir = path.join(rootDir, computeJobId(inputPath, settings, customPrompt, forceOcr));
+    return fs.existsSync(dir) ? new JobCheckpoint(dir) : null;
+  }
+
+  /** Page numbers (1-based) that already have saved results */
+  completedPages(): number[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir);
+    } catch {
+      return [];
+    }
+    return names
+      .map((name) => /^page-(\d+)\.json$/.exec(name))
+      .filter((m): m is RegExpExecArray => m !== null)
+      .map((m) => Number(m[1]))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Load the saved regions for a page, or null if the page isn't finished
+   * (or its file is unreadable).
+   */
+  load(pageNum: number): TranslatedRegion[] | null {
+    try {
+      const data = fs.readFileSync(path.join(this.dir, pageFileName(pageNum)), 'utf-8');
+      const regions = JSON.parse(data);
+      return Array.isArray(regions) ? regions : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save a finished page. Written to a temp file first so a crash never
+   * leaves a half-written checkpoint behind.
+   */
+  save(pageNum: number, regions: TranslatedRegion[]): void {
+    const target = path.join(this.dir, pageFileName(pageNum));
+    const temp = `${target}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(regions));
+    fs.renameSync(temp, target);
+  }
+
+  /** Unlock the job directory, keeping its pages for a later resume */
+  release(): void {
+    fs.rmSync(path.join(this.dir, LOCK_FILE), { force: true });
+  }
+
+  /** Delete the job directory once the output has been written */
+  remove(): void {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { contentInArea, parseContentStream } from './content-stream';
+
+const AREA = { x: 100, y: 100, width: 50, height: 20 };
+
+function copy(content: string, keepText = false): string {
+  const bytes = Buffer.from(content, 'latin1');
+  return Buffer.from(contentInArea(parseContentStream(bytes), AREA, keepText)).toString('latin1');
+}
+
+describe('parseContentStream', () => {
+  it('reads operators with their operands', () => {
+    const ops = parseContentStream(Buffer.from('BT /F1 10 Tf [(ab) -250 <0102>] TJ ET'));
+    expect(ops.map((op) => op.operator)).toEqual(['BT', 'Tf', 'TJ', 'ET']);
+    expect(ops[1].operands).toEqual([null, 10]);
+    expect(ops[2].operands).toEqual([[{ bytes: 2 }, -250, { bytes: 2 }]]);
+    expect(ops[2].source).toBe('[(ab) -250 <0102>] TJ');
+  });
+
+  it('counts escaped and nested characters of a string once', () => {
+    const [op] = parseContentStream(Buffer.from('(a\\(b\\051\\\nc(d)) Tj'));
+    expect(op.operands).toEqual([{ bytes: 8 }]);
+  });
+
+  it('reads a marked content dictionary as one operand', () => {
+    const [op] = parseContentStream(Buffer.from('/Span <</ActualText (x>>y)>> BDC'));
+    expect(op.operator).toBe('BDC');
+    expect(op.operands).toEqual([null, null]);
+  });
+
+  it('keeps an inline image in one operation', () => {
+    const ops = parseContentStream(Buffer.from('BI /W 1 /H 1 ID \x00EI Q\n EI Q'));
+    expect(ops.map((op) => op.operator)).toEqual(['BI', 'Q']);
+  });
+});
+
+describe('contentInArea', () => {
+  it('drops lines of text far from the area', () => {
+    const out = copy('BT /F1 10 Tf 100 500 Td (far away) Tj 0 -395 Td (near) Tj ET');
+    expect(out).not.toContain('(far away) Tj');
+    expect(out).toContain('(near) Tj');
+    // Line moves and state stay, so the text that is kept lands where it did
+    expect(out).toContain('100 500 Td');
+    expect(out).toContain('/F1 10 Tf');
+  });
+
+  it('keeps text before kept text on the same line', () => {
+    const out = copy('BT /F1 10 Tf 0 105 Td (ab) Tj [-6000 (x)] TJ 0 -300 Td (below) Tj ET');
+    expect(out).toContain('(ab) Tj');
+    expect(out).toContain('[-6000 (x)] TJ');
+    expect(out).not.toContain('(below) Tj');
+  });
+
+  it('places text through the current transformation', () => {
+    const out = copy('q 1 0 0 1 0 400 cm BT /F1 10 Tf 100 -295 Td (moved) Tj ET Q BT /F1 10 Tf 100 405 Td (elsewhere) Tj ET');
+    expect(out).toContain('(moved) Tj');
+    expect(out).not.toContain('(elsewhere) Tj');
+  });
+
+  it('keeps the line move of a dropped quote operator', () => {
+    const out = copy("BT /F1 10 Tf 12 TL 100 500 Td (far) ' ET");
+    expect(out).not.toContain("(far) '");
+    expect(out).toContain('T*');
+  });
+
+  it('keeps all text when asked to', () => {
+    expect(copy('BT /F1 10 Tf 100 500 Td (far away) Tj ET', true)).toContain('(far away) Tj');
+  });
+
+  it('drops paths outside the area but keeps clipping paths', () => {
+    const out = copy('0 0 10 10 re f 110 105 20 1 re f 0 0 600 800 re W n');
+    expect(out).not.toContain('0 0 10 10 re');
+    expect(out).toContain('110 105 20 1 re\nf');
+    expect(out).toContain('0 0 600 800 re\nW\nn');
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * Minimal PDF content stream reader, used to copy a small area of a page
+ * without the rest of its content.
+ *
+ * Glyph widths are not looked up in the fonts, so positions along a line of
+ * text are only known within bounds: an operation is dropped only when it
+ * certainly paints nothing in the area, and everything else is kept (and left
+ * for the clip to cut).
+ */
+import { BBox } from './types';
+
+/** A string operand; only its length in bytes matters here */
+export interface StringOperand {
+  bytes: number;
+}
+
+/** Numbers, strings and arrays are read; names, dictionaries and the like are null */
+export type Operand = number | StringOperand | Operand[] | null;
+
+export interface ContentOperation {
+  operator: string;
+  operands: Operand[];
+  /** The operation as written in the stream */
+  source: string;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+/** Bounds on how far a glyph advances the text position, in ems of the font size */
+const MAX_GLYPH_ADVANCE_EMS = 2;
+/** How far a glyph may reach above or below its baseline, in ems (big operators and delimiters reach far) */
+const MAX_GLYPH_REACH_EMS = 3;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+const PATH_CONSTRUCTION = new Set(['m', 'l', 'c', 'v', 'y', 'h', 're']);
+const PATH_PAINTING = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n']);
+
+/**
+ * Split a decoded content stream into its operations.
+ */
+export function parseContentStream(content: Uint8Array): ContentOperation[] {
+  const text = Buffer.from(content.buffer, content.byteOffset, content.byteLength).toString('latin1');
+  const operations: ContentOperation[] = [];
+  let pos = 0;
+  let start = -1;
+  const stack: Operand[][] = [[]];
+
+  const skipSpace = () => {
+    while (pos < text.length) {
+      const code = text.charCodeAt(pos);
+      if (WHITESPACE.has(code)) {
+        pos++;
+      } else if (text[pos] === '%') {
+        while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+  const readRegular = () => {
+    const from = pos;
+    while (pos < text.length && !WHITESPACE.has(text.charCodeAt(pos)) && !DELIMITERS.has(text[pos])) pos++;
+    return text.slice(from, pos);
+  };
+
+  while (true) {
+    skipSpace();
+    if (pos >= text.length) break;
+    if (start < 0) start = pos;
+    const ch = text[pos];
+    const operands = stack[stack.length - 1];
+
+    if (ch === '(') {
+      operands.push(readLiteralString());
+    } else if (ch === '<' && text[pos + 1] === '<') {
+      pos += 2;
+      stack.push([]);
+    } else if (ch === '>' && text[pos + 1] === '>') {
+      pos += 2;
+      if (stack.length > 1) stack.pop();
+      stack[stack.length - 1].push(null);
+    } else if (ch === '<') {
+      const end = text.indexOf('>', pos);
+      const hex = text.slice(pos + 1, end < 0 ? text.length : end).replace(/[^0-9a-fA-F]/g, '');
+      operands.push({ bytes: Math.ceil(hex.length / 2) });
+      pos = end < 0 ? text.length : end + 1;
+    } else if (ch === '[') {
+      pos++;
+      stack.push([]);
+    } else if (ch === ']') {
+      pos++;
+      if (stack.length > 1) {
+        const array = stack.pop()!;
+        stack[stack.length - 1].push(array);
+      }
+    } else if (ch === '/') {
+      pos++;
+      readRegular();
+      operands.push(null);
+    } else if (DELIMITERS.has(ch)) {
+      // Stray ')', '{', '}' or '>'
+      pos++;
+    } else {
+      const token = readRegular();
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        operands.push(parseFloat(token));
+      } else if (token === 'true' || token === 'false' || token === 'null') {
+        operands.push(null);
+      } else if (stack.length > 1) {
+        // An operator can't appear inside an array or dictionary; treat it as a value
+        operands.push(null);
+      } else {
+        if (token === 'BI') skipInlineImage();
+        operations.push({ operator: token, operands: stack[0], source: text.slice(start, pos) });
+        stack[0] = [];
+        start = -1;
+      }
+    }
+  }
+  return operations;
+
+  function readLiteralString(): StringOperand {
+    let depth = 0;
+    let bytes = 0;
+    pos++;
+    while (pos < text.length) {
+      const ch = text[pos++];
+      if (ch === '\\') {
+        const next = text[pos++];
+        if (/[0-7]/.test(next)) {
+          // Up to three octal digits make one byte
+          for (let k = 0; k < 2 && /[0-7]/.test(text[pos]); k++) pos++;
+          bytes++;
+        } else if (next === '\r') {
+          if (text[pos] === '\n') pos++;
+        } else if (next !== '\n') {
+          bytes++;
+        }
+      } else if (ch === '(') {
+        depth++;
+        bytes++;
+      } else if (ch === ')') {
+        if (depth === 0) break;
+        depth--;
+        bytes++;
+      } else {
+        bytes++;
+      }
+    }
+    return { bytes };
+  }
+
+  /** Move past an inline image's data, to just after its EI */
+  function skipInlineImage(): void {
+    const data = text.slice(pos).search(/\sID\s/);
+    if (data < 0) {
+      pos = text.length;
+      return;
+    }
+    const end = /\sEI(?=\s|$)/g;
+    end.lastIndex = pos + data + 4;
+    const match = end.exec(text);
+    pos = match ? match.index + match[0].length : text.length;
+  }
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+/** Bounding box of the points (x, y pairs) mapped through a matrix */
+function transformedBounds(points: number[], m: Matrix): BBox {
+  let x1 = Infinity, y1 = Infinity, x2 = -Infinity, y2 = -Infinity;
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const x = points[i] * m[0] + points[i + 1] * m[2] + m[4];
+    const y = points[i] * m[1] + points[i + 1] * m[3] + m[5];
+    x1 = Math.min(x1, x); y1 = Math.min(y1, y);
+    x2 = Math.max(x2, x); y2 = Math.max(y2, y);
+  }
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+function overlaps(a: BBox, b: BBox, margin: number): boolean {
+  return a.x - margin < b.x + b.width && b.x - margin < a.x + a.width &&
+    a.y - margin < b.y + b.height && b.y - margin < a.y + a.height;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  charSpacing: number;
+  wordSpacing: number;
+  /** Horizontal scaling as a fraction */
+  scale: number;
+  leading: number;
+  fontSize: number;
+  rise: number;
+  renderMode: number;
+  lineWidth: number;
+}
+
+/**
+ * The operations that may paint in `area` (in the stream's user space), as a
+ * content stream. Text is only dropped at the end of a line, as the position
+ * of text after it depends on it, and nothing that clips is ever dropped.
+ * @param keepText - Keep all text, e.g. when the page has vertical fonts, whose glyphs advance downwards
+ */
+export function contentInArea(operations: ContentOperation[], area: BBox, keepText = false): Uint8Array {
+  const kept: (string | null)[] = operations.map((op) => op.source);
+  const states: GraphicsState[] = [];
+  let gs: GraphicsState = {
+    ctm: [1, 0, 0, 1, 0, 0],
+    charSpacing: 0, wordSpacing: 0, scale: 1, leading: 0, fontSize: 0, rise: 0, renderMode: 0,
+    lineWidth: 1,
+  };
+  let textMatrix: Matrix = [1, 0, 0, 1, 0, 0];
+  let lineMatrix: Matrix = [1, 0, 0, 1, 0, 0];
+  // Where the text position may be along the line, from the line's start, in text space
+  let low = 0;
+  let high = 0;
+  // Text shown since the line started, dropped unless something later on the line is kept
+  let line: number[] = [];
+  let path: number[] = [];
+  let pathPoints: number[] = [];
+  let clipsPath = false;
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+    low = high = 0;
+    line = [];
+  };
+  const dropLine = () => {
+    for (const i of line) {
+      const { operator, operands } = operations[i];
+      // The line moves are kept in place of the text
+      if (operator === "'") kept[i] = 'T*';
+      else if (operator === '"') kept[i] = `${operands[0]} Tw ${operands[1]} Tc T*`;
+      else kept[i] = null;
+    }
+    line = [];
+  };
+  const show = (i: number, strings: Operand[]) => {
+    const { fontSize, charSpacing, wordSpacing, scale, rise } = gs;
+    const size = Math.abs(fontSize);
+    const spacing = Math.abs(charSpacing) + Math.abs(wordSpacing);
+    const minAdvance = -spacing * Math.abs(scale);
+    const maxAdvance = (MAX_GLYPH_ADVANCE_EMS * size + spacing) * Math.abs(scale);
+    let left = low;
+    let right = high;
+    for (const item of strings) {
+      if (typeof item === 'number') {
+        const shift = (-item / 1000) * fontSize * scale;
+        low += shift;
+        high += shift;
+      } else if (item && !Array.isArray(item)) {
+        low += item.bytes * minAdvance;
+        high += item.bytes * maxAdvance;
+      }
+      left = Math.min(left, low);
+      right = Math.max(right, high);
+    }
+    const reach = MAX_GLYPH_REACH_EMS * size;
+    const bounds = transformedBounds(
+      [left, rise - reach, right, rise - reach, left, rise + reach, right, rise + reach],
+      multiply(textMatrix, gs.ctm)
+    );
+    line.push(i);
+    // Text drawn as a clip, or possibly in the area, keeps the line up to here
+    if (keepText || gs.renderMode >= 4 || overlaps(bounds, area, size)) {
+      line = [];
+    }
+  };
+
+  operations.forEach(({ operator, operands }, i) => {
+    const num = (k: number) => (typeof operands[k] === 'number' ? (operands[k] as number) : 0);
+    if (PATH_CONSTRUCTION.has(operator)) {
+      path.push(i);
+      if (operator === 're') {
+        const [x, y, w, h] = [num(0), num(1), num(2), num(3)];
+        pathPoints.push(x, y, x + w, y, x, y + h, x + w, y + h);
+      } else {
+        for (let k = 0; k + 1 < operands.length; k += 2) pathPoints.push(num(k), num(k + 1));
+      }
+      return;
+    }
+    if (operator === 'W' || operator === 'W*') {
+      clipsPath = true;
+      return;
+    }
+    if (PATH_PAINTING.has(operator)) {
+      const bounds = transformedBounds(pathPoints, gs.ctm);
+      const width = gs.lineWidth * Math.hypot(gs.ctm[0], gs.ctm[1]);
+      if (!clipsPath && pathPoints.length > 0 && !overlaps(bounds, area, width + 1)) {
+        for (const k of [...path, i]) kept[k] = null;
+      }
+      path = [];
+      pathPoints = [];
+      clipsPath = false;
+      return;
+    }
+
+    switch (operator) {
+      case 'q':
+        states.push({ ...gs });
+        break;
+      case 'Q':
+        gs = states.pop() || gs;
+        break;
+      case 'cm':
+        gs.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], gs.ctm);
+        break;
+      case 'w':
+        gs.lineWidth = num(0);
+        break;
+      case 'BT':
+        lineMatrix = textMatrix = [1, 0, 0, 1, 0, 0];
+        low = high = 0;
+        line = [];
+        break;
+      case 'ET':
+        dropLine();
+        break;
+      case 'Tc':
+        gs.charSpacing = num(0);
+        break;
+      case 'Tw':
+        gs.wordSpacing = num(0);
+        break;
+      case 'Tz':
+        gs.scale = num(0) / 100;
+        break;
+      case 'TL':
+        gs.leading = num(0);
+        break;
+      case 'Tf':
+        gs.fontSize = num(1);
+        break;
+      case 'Ts':
+        gs.rise = num(0);
+        break;
+      case 'Tr':
+        gs.renderMode = num(0);
+        break;
+      case 'Td':
+        dropLine();
+        moveLine(num(0), num(1));
+        break;
+      case 'TD':
+        dropLine();
+        gs.leading = -num(1);
+        moveLine(num(0), num(1));
+        break;
+      case 'Tm':
+        dropLine();
+        lineMatrix = textMatrix = [num(0), num(1), num(2), num(3), num(4), num(5)];
+        low = high = 0;
+        break;
+      case 'T*':
+        dropLine();
+        moveLine(0, -gs.leading);
+        break;
+      case 'Tj':
+        show(i, operands.slice(0, 1));
+        break;
+      case 'TJ':
+        show(i, Array.isArray(operands[0]) ? operands[0] : []);
+        break;
+      case "'":
+        dropLine();
+        moveLine(0, -gs.leading);
+        show(i, operands.slice(0, 1));
+        break;
+      case '"':
+        dropLine();
+        gs.wordSpacing = num(0);
+        gs.charSpacing = num(1);
+        moveLine(0, -gs.leading);
+        show(i, operands.slice(2, 3));
+        break;
+    }
+  });
+  // Text left open at the end of the stream is kept
+  return Buffer.from(kept.filter((source) => source !== null).join('\n'), 'latin1');
+}
@@ -0,0 +1,144 @@
+/**
+ * Debug overlay writer: draws what each pipeline stage saw on top of the
+ * original PDF, so layout, matching and writing problems can be told apart.
+ *
+ * - Layout boxes: solid outline in the class colour, labelled "class confidence"
+ * - Text blocks: thin outline in the colour of the region they matched, grey if unmatched
+ * - Final pdfBBox of written regions: dashed black outline
+ * - Table cells: dotted outline in the table colour of the area the translation may fill
+ * - Dropped layout boxes: dashed outline in the class colour, labelled with the reason
+ */
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, degrees, rgb, RGB } from 'pdf-lib';
+import fs from 'node:fs';
+import { BBox, DroppedRegion, LayoutBox, LayoutClass, TextBlock, TranslatableRegion, TranslatedRegion } from './types';
+import { PageGeometry, pageBBoxToUser, pageToUser, pdfLibPageGeometry } from './page-geometry';
+
+const LABEL_SIZE = 6;
+
+const CLASS_COLORS: Record<LayoutClass, RGB> = {
+  title: rgb(0.85, 0.1, 0.1),
+  plain_text: rgb(0.1, 0.35, 0.9),
+  abandon: rgb(0.5, 0.5, 0.5),
+  figure: rgb(0.1, 0.65, 0.2),
+  figure_caption: rgb(0, 0.6, 0.6),
+  table: rgb(0.95, 0.55, 0),
+  table_caption: rgb(0.6, 0.35, 0.1),
+  table_footnote: rgb(0.55, 0.2, 0.75),
+  isolate_formula: rgb(0.85, 0, 0.65),
+  formula_caption: rgb(0.95, 0.4, 0.6),
+};
+const DROPPED_COLOR = rgb(0.45, 0.45, 0.45);
+const FINAL_BBOX_COLOR = rgb(0, 0, 0);
+
+/** Everything the analysis stages produced for one page */
+export interface PageDebugInfo {
+  /** Layout boxes in image pixel coordinates */
+  layoutBoxes: LayoutBox[];
+  /** All text blocks on the page, in page coordinates */
+  textBlocks: TextBlock[];
+  /** Regions produced by matching, before translation */
+  regions: TranslatableRegion[];
+  dropped: DroppedRegion[];
+  /** Displayed page height in points */
+  pageHeight: number;
+  /** Image pixels / PDF points */
+  scale: number;
+}
+
+/**
+ * Convert an image-space box (top-left origin, pixels) to page coordinates.
+ */
+function imageToPdfBBox(bbox: BBox, pageHeight: number, scale: number): BBox {
+  return {
+    x: bbox.x / scale,
+    y: pageHeight - (bbox.y + bbox.height) / scale,
+    width: bbox.width / scale,
+    height: bbox.height / scale,
+  };
+}
+
+/** Label above the top-left corner of a box in page coordinates, upright as the page is displayed */
+function drawLabel(page: PDFPage, geometry: PageGeometry, font: PDFFont, text: string, box: BBox, color: RGB) {
+  const width = font.widthOfTextAtSize(text, LABEL_SIZE) + 2;
+  const y = box.y + box.height;
+  page.drawRectangle({ ...pageBBoxToUser(geometry, { x: box.x, y, width, height: LABEL_SIZE + 2 }), color, opacity: 0.85 });
+  const [tx, ty] = pageToUser(geometry, box.x + 1, y + 1.5);
+  page.drawText(text, { x: tx, y: ty, size: LABEL_SIZE, font, color: rgb(1, 1, 1), rotate: degrees(geometry.rotation) });
+}
+
+/**
+ * Write a copy of the input PDF with the debug overlay drawn on each analysed page.
+ *
+ * @param pages - Map of page index to analysis results
+ * @param pageRegions - Map of page index to the regions that were written
+ */
+export async function writeDebugPdf(
+  inputPath: string,
+  outputPath: string,
+  pages: Map<number, PageDebugInfo>,
+  pageRegions: Map<number, TranslatedRegion[]>
+): Promise<void> {
+  const pdfDoc = await PDFDocument.load(fs.readFileSync(inputPath));
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const pdfPages = pdfDoc.getPages();
+
+  for (const [pageIndex, info] of pages) {
+    if (pageIndex >= pdfPages.length) continue;
+    const page = pdfPages[pageIndex];
+    // Everything is in page coordinates; drawing is in user space
+    const geometry = pdfLibPageGeometry(page);
+    const droppedBoxes = new Set(info.dropped.map((d) => d.layoutBox));
+    const matchedClass = new Map<TextBlock, LayoutClass>();
+    for (const region of info.regions) {
+      for (const block of region.textBlocks) matchedClass.set(block, region.layoutBox.className);
+    }
+
+    // Text blocks, coloured by the class of the region they were matched to
+    for (const block of info.textBlocks) {
+      const className = matchedClass.get(block);
+      page.drawRectangle({
+        ...pageBBoxToUser(geometry, block),
+        borderColor: className ? CLASS_COLORS[className] : DROPPED_COLOR,
+        borderWidth: 0.3,
+        borderOpacity: className ? 0.8 : 0.4,
+      });
+    }
+
+    // Layout boxes kept as regions
+    for (const layoutBox of info.layoutBoxes) {
+      if (droppedBoxes.has(layoutBox)) continue;
+      const color = CLASS_COLORS[layoutBox.className] || DROPPED_COLOR;
+      const box = imageToPdfBBox(layoutBox.bbox, info.pageHeight, info.scale);
+      page.drawRectangle({ ...pageBBoxToUser(geometry, box), borderColor: color, borderWidth: 1 });
+      drawLabel(page, geometry, font, `${layoutBox.className} ${layoutBox.confidence.toFixed(2)}`, box, color);
+    }
+
+    // Dropped layout boxes
+    for (const { layoutBox, reason } of info.dropped) {
+      const color = CLASS_COLORS[layoutBox.className] || DROPPED_COLOR;
+      const box = imageToPdfBBox(layoutBox.bbox, info.pageHeight, info.scale);
+      page.drawRectangle({ ...pageBBoxToUser(geometry, box), borderColor: color, borderWidth: 0.8, borderDashArray: [3, 2] });
+      drawLabel(page, geometry, font, `${layoutBox.className} ${layoutBox.confidence.toFixed(2)} (${reason})`, box, color);
+    }
+
+    // Final boxes the writer covers and fills
+    for (const region of pageRegions.get(pageIndex) || []) {
+      page.drawRectangle({
+        ...pageBBoxToUser(geometry, region.pdfBBox),
+        borderColor: FINAL_BBOX_COLOR,
+        borderWidth: 0.6,
+        borderDashArray: [1.5, 1.5],
+      });
+      if (region.cellBBox) {
+        page.drawRectangle({
+          ...pageBBoxToUser(geometry, region.cellBBox),
+          borderColor: CLASS_COLORS.table,
+          borderWidth: 0.4,
+          borderDashArray: [0.5, 1],
+        });
+      }
+    }
+  }
+
+  fs.writeFileSync(outputPath, await pdfDoc.save());
+}
@@ -0,0 +1,97 @@
+/**
+ * Pre-flight size and cost estimate for a translation job.
+ * Token counts are approximations (no tokenizer is bundled); prices come from
+ * the model metadata pi-ai ships with.
+ */
+import { getModels } from '@mariozechner/pi-ai';
+import { DEFAULT_SYSTEM_PROMPT } from './translator/llm';
+import { stripPlaceholders } from './formula';
+import { AppSettings } from './types';
+
+/** Latin-script text averages about four characters per token */
+const CHARS_PER_TOKEN = 4;
+/** Tokens added to every request by the "Translate from X to Y:" wrapper and message framing */
+const REQUEST_OVERHEAD_TOKENS = 20;
+/** Translations come out roughly as long as their source, measured in tokens */
+const OUTPUT_TOKEN_RATIO = 1;
+
+const WIDE_CHAR = /[\u1100-\u11ff\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+export interface CostEstimate {
+  pages: number;
+  /** Regions that would be sent to the translator */
+  regions: number;
+  characters: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated price in USD; null for Google Translate or models without pricing */
+  cost: number | null;
+  /** "provider/model" the price refers to, when priced */
+  model?: string;
+}
+
+/**
+ * Rough token count: CJK characters count as one token each, everything else
+ * as CHARS_PER_TOKEN characters per token.
+ */
+export function estimateTokens(text: string): number {
+  let wide = 0;
+  let other = 0;
+  for (const ch of text) {
+    if (WIDE_CHAR.test(ch)) wide++;
+    else other++;
+  }
+  return wide + Math.ceil(other / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate tokens and price for translating the given texts, one request
+ * per text as the LLM translator does.
+ * @param regions - Regions the texts come from
+ * @param texts - Text of each request: a paragraph, possibly spanning regions
+ */
+export function estimateCost(
+  pages: number,
+  regions: number,
+  texts: string[],
+  settings: AppSettings,
+  customPrompt?: string
+): CostEstimate {
+  const promptTokens = estimateTokens(customPrompt || DEFAULT_SYSTEM_PROMPT) + REQUEST_OVERHEAD_TOKENS;
+  let characters = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (const request of texts) {
+    // Formula placeholders stand for text that is never translated
+    const text = stripPlaceholders(request).replace(/\s+/g, ' ').trim();
+    const textTokens = estimateTokens(text);
+    characters += text.length;
+    inputTokens += promptTokens + textTokens;
+    outputTokens += Math.ceil(textTokens * OUTPUT_TOKEN_RATIO);
+  }
+
+  const estimate: CostEstimate = {
+    pages,
+    regions,
+    characters,
+    inputTokens,
+    outputTokens,
+    cost: null,
+  };
+  if (settings.translatorType !== 'llm') {
+    return estimate;
+  }
+
+  let models: any[] = [];
+  try {
+    models = getModels(settings.llmProvider as any);
+  } catch {
+    // Unknown provider: no pricing available
+  }
+  const model = models.find((m) => m.id === settings.llmModel);
+  if (model?.cost) {
+    estimate.cost = (model.cost.input * inputTokens + model.cost.output * outputTokens) / 1_000_000;
+    estimate.model = `${settings.llmProvider}/${settings.llmModel}`;
+  }
+  return estimate;
+}
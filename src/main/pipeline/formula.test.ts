@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectFormulas,
+  hasPlaceholders,
+  isMathFont,
+  isMathText,
+  placeholderNumbers,
+  renumberFormulas,
+  restoreFormulas,
+  splitFormulas,
+  stripPlaceholders,
+} from './formula';
+import { assembleTextWithFormulas } from './text-extractor';
+import { FormulaSpan, TextBlock } from './types';
+
+function formula(text: string): FormulaSpan {
+  return { text, bbox: { x: 0, y: 0, width: 10, height: 10 }, fontSize: 10, baselineOffset: 0 };
+}
+
+describe('math detection', () => {
+  it('recognises math fonts by name', () => {
+    expect(isMathFont('ABCDEF+CMMI10')).toBe(true);
+    expect(isMathFont('CambriaMath')).toBe(true);
+    expect(isMathFont('TimesNewRoman')).toBe(false);
+  });
+
+  it('recognises math symbols but not Greek words', () => {
+    expect(isMathText('α + β')).toBe(true);
+    expect(isMathText('∑')).toBe(true);
+    expect(isMathText('λόγος')).toBe(false);
+    expect(isMathText('x + 1')).toBe(false);
+  });
+});
+
+describe('placeholders', () => {
+  it('are found as the translator may space them', () => {
+    expect(placeholderNumbers('a {v0} b { v1 } c {V2}')).toEqual([0, 1, 2]);
+    expect(hasPlaceholders('no formulas')).toBe(false);
+    expect(stripPlaceholders('where {v0} holds')).toBe('where   holds');
+  });
+
+  it('survive joining regions, translation and restoring', () => {
+    const { texts, formulas } = renumberFormulas([
+      { text: 'where {v0} is the', formulas: [formula('x')] },
+      { text: 'sum of {v0} and {v1}', formulas: [formula('y'), formula('z')] },
+    ]);
+    expect(texts).toEqual(['where {v0} is the', 'sum of {v1} and {v2}']);
+
+    // The translator reorders the formulas and repeats one
+    const translated = collectFormulas('{v2} 与 {v1} 之和为 {v0}，其中 {v0} 为正', formulas);
+    expect(translated.text).toBe('{v0} 与 {v1} 之和为 {v2}，其中 {v2} 为正');
+    expect(translated.formulas.map((f) => f.text)).toEqual(['z', 'y', 'x']);
+    expect(restoreFormulas(translated.text, translated.formulas)).toBe('z 与 y 之和为 x，其中 x 为正');
+  });
+
+  it('the translator invented are left as text, and dropped formulas are not kept', () => {
+    const translated = collectFormulas('只有 {v1} 和 {v7}', [formula('x'), formula('y')]);
+    expect(translated.text).toBe('只有 {v0} 和 {v7}');
+    expect(translated.formulas.map((f) => f.text)).toEqual(['y']);
+  });
+
+  it('split a line into text and formulas', () => {
+    const x = formula('x');
+    expect(splitFormulas('let {v0} be', [x])).toEqual(['let ', x, ' be']);
+  });
+});
+
+describe('formula masking in extracted text', () => {
+  it('cuts math-font runs out of a line and restores them', () => {
+    const blocks: TextBlock[] = [
+      { text: 'where', x: 50, y: 700, width: 30, height: 10, fontSize: 10, fontName: 'Times' },
+      { text: 'E = mc', x: 84, y: 700, width: 30, height: 10, fontSize: 10, fontName: 'CMMI10', formula: true },
+      { text: '2', x: 114, y: 705, width: 4, height: 6, fontSize: 6, fontName: 'CMR7' },
+      { text: 'holds', x: 122, y: 700, width: 30, height: 10, fontSize: 10, fontName: 'Times' },
+    ];
+    const { text, formulas } = assembleTextWithFormulas(blocks);
+    expect(text).toBe('where {v0} holds');
+    expect(formulas).toHaveLength(1);
+    expect(restoreFormulas(text, formulas)).toBe('where E = mc2 holds');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Inline formula protection. Formula text (variables, Greek letters, sub- and
+ * superscripts) is replaced by placeholders before translation so it can't be
+ * mangled or translated, and the placeholders are mapped back afterwards.
+ * Do-not-translate rules (see protected-text.ts) mask text the same way.
+ * Detection of formula spans happens while assembling region text (see
+ * assembleText); this module holds the rules and the placeholder bookkeeping.
+ */
+import { FormulaSpan } from './types';
+
+/** Fonts mathematics is set in: TeX's math fonts, MathType, OpenType math fonts, Symbol */
+const MATH_FONT = /(?:^|\+)(?:CM(?:MI|SY|EX|BSY|MIB)\d*|MSAM|MSBM|EUFM|EUSM|RSFS|MT(?:MI|SY|EX)|Symbol)|Math/i;
+/** Greek letters, primes, super/subscripts, letterlike symbols, arrows, operators and math alphanumerics */
+const MATH_SYMBOL = /[\u0391-\u03A9\u03B1-\u03C9\u03D1\u03D5\u03F0\u03F1\u03F5\u2032-\u2034\u2070-\u209F\u2100-\u214F\u2190-\u21FF\u2200-\u22FF\u2308-\u230B\u27C0-\u27EF\u2980-\u2AFF\u{1D400}-\u{1D7FF}]/u;
+const MATH_ALPHANUMERIC = /[\u{1D400}-\u{1D7FF}]/gu;
+/** What else may appear in a formula without letters of its own */
+const MATH_FILLER = /^[\d\s.,:;+\-*\/=<>()[\]{}|!'^_~]*$/;
+
+const PLACEHOLDER = /\{\s*v\s*(\d+)\s*\}/gi;
+
+/** Whether a font name (e.g. "ABCDEF+CMMI10") is a math font */
+export function isMathFont(name: string): boolean {
+  return MATH_FONT.test(name);
+}
+
+/**
+ * Whether a text item reads as mathematics on its own: math symbols with at
+ * most digits and operators around them. Runs of three or more letters are
+ * words (so Greek prose is not a formula).
+ */
+export function isMathText(text: string): boolean {
+  const trimmed = text.trim();
+  if (!trimmed || /\p{L}{3,}/u.test(trimmed.replace(MATH_ALPHANUMERIC, ' '))) return false;
+  const symbols = Array.from(trimmed).filter((char) => MATH_SYMBOL.test(char));
+  return symbols.length > 0 && MATH_FILLER.test(Array.from(trimmed).filter((char) => !MATH_SYMBOL.test(char)).join(''));
+}
+
+/** Whether text has no letters and could therefore continue a neighbouring formula ("= 1", "+") */
+export function isMathFiller(text: string): boolean {
+  return text.trim() !== '' && MATH_FILLER.test(text);
+}
+
+export function placeholder(index: number): string {
+  return `{v${index}}`;
+}
+
+/** Whether text contains formula placeholders */
+export function hasPlaceholders(text: string): boolean {
+  return new RegExp(PLACEHOLDER.source, 'i').test(text);
+}
+
+/** Numbers of the placeholders in a text, in order */
+export function placeholderNumbers(text: string): number[] {
+  return Array.from(text.matchAll(PLACEHOLDER), (match) => Number(match[1]));
+}
+
+/** Replace each placeholder by what `replace` returns for its number; undefined leaves it */
+export function replacePlaceholders(text: string, replace: (n: number) => string | undefined): string {
+  return text.replace(PLACEHOLDER, (match, n) => replace(Number(n)) ?? match);
+}
+
+/**
+ * Renumber the placeholders of several texts so they can be joined into one:
+ * each text's numbers follow on from the previous text's formulas.
+ */
+export function renumberFormulas(items: { text: string; formulas?: FormulaSpan[] }[]): { texts: string[]; formulas: FormulaSpan[] } {
+  const formulas: FormulaSpan[] = [];
+  const texts = items.map(({ text, formulas: own = [] }) => {
+    const offset = formulas.length;
+    formulas.push(...own);
+    return text.replace(PLACEHOLDER, (match, n) => (Number(n) < own.length ? placeholder(offset + Number(n)) : match));
+  });
+  return { texts, formulas };
+}
+
+/**
+ * Take the formulas a (translated) text's placeholders refer to, numbered
+ * from 0 in order of appearance. Placeholders the translator invented are
+ * left as text; formulas it dropped are not returned.
+ */
+export function collectFormulas(text: string, formulas: FormulaSpan[]): { text: string; formulas: FormulaSpan[] } {
+  const used: FormulaSpan[] = [];
+  const renumbered = text.replace(PLACEHOLDER, (match, n) => {
+    const formula = formulas[Number(n)];
+    if (!formula) return match;
+    const index = used.indexOf(formula);
+    if (index >= 0) return placeholder(index);
+    used.push(formula);
+    return placeholder(used.length - 1);
+  });
+  return { text: renumbered, formulas: used };
+}
+
+/** Drop the placeholders, e.g. to detect the language of the words around them */
+export function stripPlaceholders(text: string): string {
+  return text.replace(PLACEHOLDER, ' ');
+}
+
+/** Put the formulas' source text back in place of their placeholders */
+export function restoreFormulas(text: string, formulas: FormulaSpan[] = []): string {
+  return text.replace(PLACEHOLDER, (match, n) => formulas[Number(n)]?.text ?? match);
+}
+
+/** Characters of a text, each placeholder counting as one, for wrapping and splitting without cutting them */
+export function textUnits(text: string): string[] {
+  return text.match(/\{v\d+\}|[\s\S]/gu) || [];
+}
+
+/**
+ * Split a line of text into plain text and formula references, in order.
+ */
+export function splitFormulas(text: string, formulas: FormulaSpan[] = []): (string | FormulaSpan)[] {
+  const parts: (string | FormulaSpan)[] = [];
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const formula = formulas[Number(match[1])];
+    if (!formula) continue;
+    if (match.index > last) parts.push(text.slice(last, match.index));
+    parts.push(formula);
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
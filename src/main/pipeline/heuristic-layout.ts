@@ -0,0 +1,196 @@
+/**
+ * Model-free layout analysis: groups text-layer items into lines and lines
+ * into paragraphs by spacing, indentation and font size. Used in "Fast"
+ * layout mode and when the ONNX layout model cannot be loaded.
+ */
+import { LayoutBox, LayoutClass, TextBlock, LAYOUT_CLASSES } from './types';
+import { toTextFrame } from './page-geometry';
+
+/** Items on the same baseline further apart than this (in ems) belong to different columns */
+const COLUMN_GAP_EMS = 2;
+/** Largest blank space between two lines of one paragraph, in ems */
+const LINE_GAP_EMS = 0.7;
+/** A line starting this far right of the paragraph while still reaching its right edge opens a new paragraph */
+const INDENT_EMS = 0.8;
+/** A line ending this far short of the paragraph's right edge closes the paragraph */
+const SHORT_LINE_EMS = 2;
+/** Lines whose font sizes differ by more than this ratio are not joined */
+const FONT_SIZE_RATIO = 1.2;
+/** Paragraphs this much larger than body text are titles */
+const TITLE_SIZE_RATIO = 1.15;
+const TITLE_MAX_LINES = 3;
+/** Padding around each paragraph (points) so all of its items fall inside the box */
+const BOX_PADDING = 1;
+
+/** A run of text items on one baseline, in top-down coordinates of the text's frame */
+interface TextLine {
+  blocks: TextBlock[];
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  baseline: number;
+  fontSize: number;
+}
+
+interface Paragraph {
+  lines: TextLine[];
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  fontSize: number;
+  /** Set once a short last line shows the paragraph has ended */
+  closed: boolean;
+}
+
+/** Group blocks, already turned so their text runs left to right, into lines */
+function groupLines(blocks: TextBlock[]): TextLine[] {
+  const sorted = [...blocks].sort((a, b) => (b.y - a.y) || (a.x - b.x));
+  const lines: TextLine[] = [];
+
+  for (const block of sorted) {
+    const fontSize = block.fontSize || 10;
+    const baseline = -block.y;
+    const top = -(block.y + block.height);
+    const line = lines.find((l) =>
+      Math.abs(l.baseline - baseline) < Math.min(l.fontSize, fontSize) * 0.5 &&
+      block.x - l.right < COLUMN_GAP_EMS * fontSize &&
+      l.left - (block.x + block.width) < COLUMN_GAP_EMS * fontSize
+    );
+
+    if (line) {
+      line.blocks.push(block);
+      line.left = Math.min(line.left, block.x);
+      line.right = Math.max(line.right, block.x + block.width);
+      line.top = Math.min(line.top, top);
+      line.bottom = Math.max(line.bottom, baseline);
+      // The line's size is that of its longest item
+      const longest = line.blocks.reduce((a, b) => (b.text.length > a.text.length ? b : a));
+      line.fontSize = longest.fontSize || fontSize;
+    } else {
+      lines.push({ blocks: [block], left: block.x, right: block.x + block.width, top, bottom: baseline, baseline, fontSize });
+    }
+  }
+
+  return lines.sort((a, b) => (a.top - b.top) || (a.left - b.left));
+}
+
+function canJoin(para: Paragraph, line: TextLine): boolean {
+  if (para.closed) return false;
+  const em = Math.max(para.fontSize, line.fontSize);
+  const sizeRatio = Math.max(para.fontSize, line.fontSize) / Math.min(para.fontSize, line.fontSize);
+  if (sizeRatio > FONT_SIZE_RATIO) return false;
+
+  // Same column: horizontal extents overlap
+  if (line.left >= para.right || line.right <= para.left) return false;
+
+  const gap = line.top - para.bottom;
+  if (gap > LINE_GAP_EMS * em || gap < -0.5 * em) return false;
+
+  // First-line indent of a new paragraph in justified text
+  const indented = line.left - para.left > INDENT_EMS * em;
+  const reachesRight = Math.abs(line.right - para.right) < em;
+  return !(indented && reachesRight);
+}
+
+function addLine(para: Paragraph, line: TextLine): void {
+  const em = para.fontSize;
+  // A line ending well short of the right edge is the paragraph's last
+  if (line.right < para.right - SHORT_LINE_EMS * em) {
+    para.closed = true;
+  }
+  para.lines.push(line);
+  para.left = Math.min(para.left, line.left);
+  para.right = Math.max(para.right, line.right);
+  para.top = Math.min(para.top, line.top);
+  para.bottom = Math.max(para.bottom, line.bottom);
+}
+
+/** Most common font size, weighted by the number of characters set in it */
+function bodyFontSize(lines: TextLine[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    const chars = line.blocks.reduce((sum, b) => sum + b.text.length, 0);
+    weights.set(size, (weights.get(size) || 0) + chars);
+  }
+  let best = 10;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) { best = size; bestWeight = weight; }
+  }
+  return best;
+}
+
+function classify(para: Paragraph, bodySize: number): LayoutClass {
+  const text = para.lines.flatMap((l) => l.blocks.map((b) => b.text)).join('');
+  // Page numbers, rules made of dashes and the like
+  if (!/\p{L}/u.test(text)) return 'abandon';
+  if (para.fontSize >= bodySize * TITLE_SIZE_RATIO && para.lines.length <= TITLE_MAX_LINES) return 'title';
+  return 'plain_text';
+}
+
+function groupParagraphs(lines: TextLine[]): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  for (const line of lines) {
+    // Join the closest open paragraph above in the same column
+    let target: Paragraph | null = null;
+    for (const para of paragraphs) {
+      if (canJoin(para, line) && (!target || para.bottom > target.bottom)) target = para;
+    }
+    if (target) {
+      addLine(target, line);
+    } else {
+      paragraphs.push({ lines: [line], left: line.left, right: line.right, top: line.top, bottom: line.bottom, fontSize: line.fontSize, closed: false });
+    }
+  }
+  return paragraphs;
+}
+
+/**
+ * Build layout boxes from the text layer alone.
+ * Boxes are returned in image coordinates like the model's, so they can go
+ * through the same region matching.
+ *
+ * Text running in each direction (a rotated table, vertical CJK columns) is
+ * laid out separately, turned so that it runs left to right.
+ *
+ * @param textBlocks - Text blocks in page coordinates (see extractText)
+ * @param pageHeight - Displayed page height in points
+ * @param scale - Image pixels / PDF points
+ */
+export function detectLayoutHeuristic(textBlocks: TextBlock[], pageHeight: number, scale: number): LayoutBox[] {
+  const byRotation = new Map<number, TextBlock[]>();
+  for (const block of textBlocks) {
+    const rotation = block.rotation || 0;
+    if (!byRotation.has(rotation)) byRotation.set(rotation, []);
+    byRotation.get(rotation)!.push({ ...block, ...toTextFrame(block, rotation) });
+  }
+  const groups = [...byRotation].map(([rotation, blocks]) => ({ rotation, lines: groupLines(blocks) }));
+  const allLines = groups.flatMap((g) => g.lines);
+  if (allLines.length === 0) return [];
+
+  const bodySize = bodyFontSize(allLines);
+  return groups.flatMap(({ rotation, lines }) => groupParagraphs(lines).map((para) => {
+    const className = classify(para, bodySize);
+    // Back from the text's frame to page coordinates (turning the other way)
+    const box = toTextFrame({
+      x: para.left - BOX_PADDING,
+      y: -para.bottom - BOX_PADDING,
+      width: para.right - para.left + 2 * BOX_PADDING,
+      height: para.bottom - para.top + 2 * BOX_PADDING,
+    }, 360 - rotation);
+    return {
+      bbox: {
+        x: Math.max(0, box.x * scale),
+        y: Math.max(0, (pageHeight - box.y - box.height) * scale),
+        width: box.width * scale,
+        height: box.height * scale,
+      },
+      classId: LAYOUT_CLASSES.indexOf(className),
+      className,
+      confidence: 1,
+    };
+  }));
+}
@@ -2,48 +2,150 @@
  * Pipeline orchestrator: coordinates all stages of PDF translation.
  */
 import path from 'node:path';
-import { app } from 'electron';
-import { renderPage, NodeCanvasFactory } from './page-renderer';
-import { loadModel, detectLayout } from './layout-detector';
-import { extractText } from './text-extractor';
-import { matchRegions } from './region-matcher';
+import { renderPageInPool, NodeCanvasFactory } from './page-renderer';
+import { loadModelInPool, detectLayoutInPool } from './layout-detector';
+import { detectLayoutHeuristic } from './heuristic-layout';
+import type { LayoutModelSpec } from './layout-models';
+import { extractText, extractRulings } from './text-extractor';
+import { ocrModelsAvailable, recognizeTextInPool, ocrLinesToTextBlocks, OcrModelPaths } from './ocr';
+import { matchRegionsDetailed, MatchOptions, MatchResult } from './region-matcher';
+import { orderRegions, groupContinuations, chainParagraphs, distributeParagraphs } from './reading-order';
+import { collectFormulas, renumberFormulas, restoreFormulas, stripPlaceholders } from './formula';
 import { createTranslator } from './translator';
 import { writePdf } from './pdf-writer';
+import { writeDebugPdf, PageDebugInfo } from './debug-writer';
 import { TranslatorUsage } from './translator';
-import { AppSettings, TranslatedRegion, ProgressEvent } from './types';
+import type { TranslationCache } from './translator/cache';
+import { PipelineAssets } from './assets';
+import { JobCheckpoint } from './checkpoint';
+import { BoundedQueue } from './bounded-queue';
+import { WorkerPool, resolveWorkerCount } from './worker-pool';
+import { translateWithRetry } from './translate-with-retry';
+import { droppedPlaceholders, maskProtected, protectionRules, unmaskProtected } from './protected-text';
+import { throwIfAborted } from './abort';
+import { estimateCost, CostEstimate } from './estimate';
+import { detectLanguage, isSameLanguage } from './language-detector';
+import {
+  createTranslationDocument,
+  saveTranslationDocument,
+  loadTranslationDocument,
+  documentToPageRegions,
+  hashFile,
+} from './translation-document';
+import { ProgressTracker } from './progress-tracker';
+import { AppSettings, BBox, FormulaSpan, LayoutBox, LayoutThresholds, resolveLayoutThresholds, TextBlock, TranslatableRegion, TranslatedRegion, ProgressEvent, PipelineWarning, PipelineStage, StageTimings } from './types';
 
-/**
- * Resolve path to bundled asset. In dev, assets/ is at project root;
- * in production, it's in the app's resources directory.
- */
-function getAssetPath(relativePath: string): string {
-  if (app.isPackaged) {
-    return path.join(process.resourcesPath, 'assets', relativePath);
-  }
-  return path.join(app.getAppPath(), 'assets', relativePath);
-}
+/** How many analysed pages may wait for translation */
+const PREFETCH_PAGES = 2;
+/** Share of per-page progress attributed to render/detect/extract vs. translation */
+const ANALYSIS_WEIGHT = 0.6;
+/** Worker entry, emitted next to the bundle that contains the pipeline */
+const WORKER_SCRIPT = path.join(__dirname, 'pipeline-worker.js');
+/** Pages sampled to detect the dominant source language */
+const LANGUAGE_SAMPLE_PAGES = 5;
+/** Language assumed when detection is inconclusive */
+const FALLBACK_SOURCE_LANGUAGE = 'en';
+/** Pages with fewer characters than this in their text layer are treated as scanned and OCR'd */
+const OCR_MIN_TEXT_CHARS = 50;
 
 export interface PipelineOptions {
   inputPath: string;
   outputPath: string;
   settings: AppSettings;
+  /** Model and font files; resolved by the caller so the pipeline has no Electron dependency */
+  assets: PipelineAssets;
   onProgress: (event: ProgressEvent) => void;
-  abortSignal?: { aborted: boolean };
+  /** Drops in-flight translation requests and stops the pipeline between stages */
+  abortSignal?: AbortSignal;
+  /** Awaited between pages; resolves when a paused job may continue */
+  waitWhilePaused?: () => Promise<void>;
   selectedPages?: number[];
   customPrompt?: string;
+  /** OCR every page instead of only those without a usable text layer */
+  forceOcr?: boolean;
+  /** Translation memory consulted before calling the translator */
+  translationCache?: TranslationCache;
+  /** Jobs that may run at the same time as this one; they split the worker threads between them */
+  concurrentJobs?: number;
+  /** Directory for per-page checkpoints; enables resuming interrupted jobs */
+  checkpointDir?: string;
+  /** If set, also write a PDF showing layout boxes, matched text and dropped regions */
+  debugOutputPath?: string;
+  /** If set, also export the translated regions as a JSON translation document */
+  exportJsonPath?: string;
 }
 
 export interface PipelineResult {
   usage?: TranslatorUsage;
+  /** Regions left untranslated because the translator kept failing */
+  warnings: PipelineWarning[];
+  /** Source language used for the document (detected in 'auto' mode) */
+  sourceLanguage: string;
+  timings: StageTimings;
+  /** Wall-clock time of the whole run */
+  elapsedMs: number;
+  /** Set when the selected layout model was missing or could not be loaded, and another layout was used instead */
+  layoutFallback?: string;
+  /** Set when pages needed OCR but the OCR models were missing or failed */
+  ocrUnavailable?: string;
+  /** Regions whose translation lost protected text or formulas (their placeholders were dropped) */
+  droppedText: PipelineWarning[];
+}
+
+/** A region's translation, with the formulas its placeholders refer to */
+interface RegionTranslation {
+  text: string;
+  formulas: FormulaSpan[];
+}
+
+/** A page that has been through render/detect/extract/match and awaits translation */
+interface AnalyzedPage {
+  /** Position in the list of pages to process */
+  idx: number;
+  /** 1-based page number */
+  pageNum: number;
+  regions: TranslatableRegion[];
+  /** Regions restored from a checkpoint; the page needs no translation */
+  restored?: TranslatedRegion[];
 }
 
 export async function runPipeline(options: PipelineOptions): Promise<PipelineResult> {
-  const { inputPath, outputPath, settings, onProgress, abortSignal, selectedPages, customPrompt } = options;
+  const { inputPath, settings, customPrompt, forceOcr, checkpointDir, concurrentJobs } = options;
+  // Pages finished by an earlier, interrupted run are restored instead of re-translated
+  const checkpoint = checkpointDir
+    ? JobCheckpoint.open(checkpointDir, inputPath, settings, customPrompt, forceOcr)
+    : null;
+  // Rendering and layout inference run on worker threads so the main process stays responsive
+  const pool = new WorkerPool(WORKER_SCRIPT, resolveWorkerCount(settings.workerThreads, concurrentJobs));
+  // Set once translateDocument has opened the PDF, so it is closed however the run ends
+  const opened: { pdfDocument?: any } = {};
+  try {
+    return await translateDocument(options, pool, checkpoint, opened);
+  } finally {
+    checkpoint?.release();
+    await opened.pdfDocument?.destroy();
+    await pool.destroy();
+  }
+}
 
-  // Load ONNX model
-  const modelPath = getAssetPath('models/doclayout_yolo_docstructbench_imgsz1024.onnx');
+async function translateDocument(
+  options: PipelineOptions,
+  pool: WorkerPool,
+  checkpoint: JobCheckpoint | null,
+  opened: { pdfDocument?: any }
+): Promise<PipelineResult> {
+  const { inputPath, outputPath, settings, assets, onProgress, abortSignal, selectedPages, customPrompt, forceOcr, translationCache, debugOutputPath, exportJsonPath, waitWhilePaused } = options;
+
+  const tracker = new ProgressTracker();
+
+  // Checked first, so a mistyped pattern fails the job before any work is done
+  const protection = protectionRules(settings.protectPatterns || [], settings.protectBuiltins !== false);
+
+  // Load ONNX model on every worker
   onProgress({ stage: 'Loading model...', currentPage: 0, totalPages: 0, percent: 0 });
-  await loadModel(modelPath);
+  const layout = await prepareLayout(pool, settings, assets);
+  const ocr = prepareOcr(assets, forceOcr);
+  throwIfAborted(abortSignal);
 
   // Load PDF with pdfjs-dist
   onProgress({ stage: 'Loading PDF...', currentPage: 0, totalPages: 0, percent: 5 });
@@ -56,122 +158,673 @@ export async function runPipeline(options: PipelineOptions): Promise<PipelineRes
     CanvasFactory: NodeCanvasFactory,
   });
   const pdfDocument = await loadingTask.promise;
+  opened.pdfDocument = pdfDocument;
   const totalPages = pdfDocument.numPages;
 
   // Create translator
-  const translator = await createTranslator(settings, customPrompt);
-  const fromLang = 'en';
+  const translator = await createTranslator(settings, customPrompt, translationCache);
   const toLang = settings.targetLanguage || 'zh-CN';
 
-  // Font paths
-  const fontPath = getAssetPath('fonts/NotoSansSC-Regular.ttf');
-  const boldFontPath = getAssetPath('fonts/NotoSansSC-Bold.ttf');
-
   // Determine which pages to process
   const pagesToProcess: number[] = selectedPages && selectedPages.length > 0
     ? selectedPages.filter((p) => p >= 1 && p <= totalPages)
     : Array.from({ length: totalPages }, (_, i) => i + 1);
   const processCount = pagesToProcess.length;
 
-  // Process each page
-  const pageRegions = new Map<number, TranslatedRegion[]>();
+  // Source language: fixed by settings, or detected from the text layer
+  const autoDetect = !settings.sourceLanguage || settings.sourceLanguage === 'auto';
+  let fromLang = settings.sourceLanguage;
+  if (autoDetect) {
+    onProgress({ stage: 'Detecting language...', currentPage: 0, totalPages: processCount, percent: 8 });
+    fromLang = await detectDocumentLanguage(pdfDocument, pagesToProcess) || FALLBACK_SOURCE_LANGUAGE;
+  }
+
+  // Progress is measured in completed stage work across all pages, so events
+  // from the analysis and translation stages interleave without going backwards.
+  let analysisWork = 0;
+  let translationWork = 0;
+  const progressEvent = (stage: string, currentPage: number, percent: number): ProgressEvent => {
+    const usage = translator.getUsage?.();
+    return {
+      stage,
+      currentPage,
+      totalPages: processCount,
+      percent,
+      ...tracker.snapshot(),
+      usage: usage && { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, totalCost: usage.totalCost },
+    };
+  };
+  const reportProgress = (stage: string, idx: number) => {
+    const done = (analysisWork * ANALYSIS_WEIGHT + translationWork * (1 - ANALYSIS_WEIGHT)) / processCount;
+    onProgress(progressEvent(stage, idx + 1, 10 + done * 85));
+  };
+  tracker.startPages(processCount);
+
+  const debugPages = new Map<number, PageDebugInfo>();
 
-  for (let idx = 0; idx < processCount; idx++) {
+  // Stages 1-4 for one page, or its saved result
+  const analyzePage = async (idx: number): Promise<AnalyzedPage> => {
     const pageNum = pagesToProcess[idx];
-    if (abortSignal?.aborted) {
-      throw new Error('Translation cancelled');
+
+    const saved = checkpoint?.load(pageNum);
+    if (saved) {
+      tracker.addRegions(saved.length);
+      analysisWork++;
+      reportProgress('Restoring checkpoint...', idx);
+      return { idx, pageNum, regions: [], restored: saved };
     }
 
-    const basePercent = 10 + (idx / processCount) * 85;
+    let stagesStarted = 0;
+    const analysis = await analyzePdfPage(pool, pdfDocument, inputPath, layout, ocr, pageNum, abortSignal, (stage) => {
+      if (stagesStarted++ > 0) analysisWork += 1 / 3;
+      reportProgress(stage, idx);
+    }, tracker);
+    const { regions } = analysis;
+    tracker.addRegions(regions.length);
+    if (debugOutputPath) {
+      debugPages.set(pageNum - 1, analysis);
+    }
+    // Mixed-language documents: regions too short to classify use the document language
+    if (autoDetect) {
+      for (const region of regions) {
+        region.sourceLanguage = detectLanguage(stripPlaceholders(region.fullText)) || fromLang;
+      }
+    }
+    analysisWork += 1 / 3;
 
-    // Stage 1: Render page to image
-    onProgress({
-      stage: 'Rendering page...',
-      currentPage: idx + 1,
-      totalPages: processCount,
-      percent: basePercent,
-    });
-    const page = await pdfDocument.getPage(pageNum);
-    const viewport = page.getViewport({ scale: 1.0 });
-    const rendered = await renderPage(page);
+    return { idx, pageNum, regions };
+  };
 
-    // Stage 2: Layout detection
-    onProgress({
-      stage: 'Detecting layout...',
-      currentPage: idx + 1,
-      totalPages: processCount,
-      percent: basePercent + (85 / processCount) * 0.2,
-    });
-    const layoutBoxes = await detectLayout(
-      rendered.rgbBuffer,
-      rendered.width,
-      rendered.height
-    );
-
-    // Stage 3: Text extraction
-    onProgress({
-      stage: 'Extracting text...',
-      currentPage: idx + 1,
-      totalPages: processCount,
-      percent: basePercent + (85 / processCount) * 0.4,
-    });
-    const textBlocks = await extractText(page);
+  // Producer: analyse up to one page per worker at a time and hand results
+  // over in page order, staying at most PREFETCH_PAGES ahead of the
+  // translation stage so CPU work overlaps with network waits.
+  const queue = new BoundedQueue<AnalyzedPage>(PREFETCH_PAGES);
+  const producer = (async () => {
+    const inFlight: Promise<AnalyzedPage>[] = [];
+    let nextIdx = 0;
+    const startNext = () => {
+      const analysis = analyzePage(nextIdx++);
+      // Mark as handled; the error is rethrown when this page's turn comes
+      analysis.catch(() => undefined);
+      inFlight.push(analysis);
+    };
+    try {
+      while (nextIdx < processCount && inFlight.length < pool.size) startNext();
+      while (inFlight.length > 0) {
+        const analyzed = await inFlight.shift()!;
+        if (abortSignal?.aborted) break;
+        if (!(await queue.put(analyzed))) break;
+        await waitWhilePaused?.();
+        if (abortSignal?.aborted) break;
+        if (nextIdx < processCount) startNext();
+      }
+      queue.close();
+    } catch (err) {
+      queue.fail(err);
+    }
+  })();
 
-    // Stage 4: Region matching
-    const regions = matchRegions(
-      layoutBoxes,
-      textBlocks,
-      viewport.height,
-      rendered.scale
-    );
+  // Consumer: Stage 5, translate pages in document order
+  const pageRegions = new Map<number, TranslatedRegion[]>();
+  const warnings: PipelineWarning[] = [];
+  const droppedText: PipelineWarning[] = [];
+  let lastError = '';
+  // Regions at the top of the next page that were translated with a paragraph from the page before
+  const carried = new Map<TranslatableRegion, { text: RegionTranslation | null; error: string | null }>();
+  // Finished pages whose last paragraph runs on into the next page. They are
+  // checkpointed together with that page, so a resumed run never pairs half a
+  // paragraph with a fresh translation of the other half
+  let deferredSaves: { pageNum: number; regions: TranslatedRegion[] }[] = [];
+  // In auto mode, regions already in the target language are left alone
+  const isSkipped = (region: TranslatableRegion) => autoDetect && isSameLanguage(region.sourceLanguage || fromLang, toLang);
+
+  // Called once the next page has been analysed, so a paragraph running on
+  // from this page's last region can be translated in one piece
+  const translatePage = async (analyzed: AnalyzedPage, next: AnalyzedPage | null) => {
+    const { idx, pageNum, regions, restored } = analyzed;
+
+    if (restored) {
+      if (restored.length > 0) {
+        pageRegions.set(pageNum - 1, restored);
+      }
+      tracker.addRegionsDone(restored.length);
+      tracker.pageFinished(true);
+      translationWork++;
+      return;
+    }
 
     if (regions.length === 0) {
-      page.cleanup();
-      continue;
+      checkpoint?.save(pageNum, []);
+      tracker.pageFinished();
+      translationWork++;
+      return;
     }
 
-    // Stage 5: Translation
-    onProgress({
-      stage: 'Translating...',
-      currentPage: idx + 1,
-      totalPages: processCount,
-      percent: basePercent + (85 / processCount) * 0.6,
+    reportProgress('Translating...', idx);
+
+    const translations: (RegionTranslation | null)[] = regions.map(() => null);
+    const errors: (string | null)[] = regions.map(() => null);
+    const skipped = new Set<number>();
+    const fromPreviousPage = new Set<number>();
+    regions.forEach((region, i) => {
+      const earlier = carried.get(region);
+      if (earlier) {
+        translations[i] = earlier.text;
+        errors[i] = earlier.error;
+        fromPreviousPage.add(i);
+        carried.delete(region);
+      } else if (isSkipped(region)) {
+        skipped.add(i);
+      }
     });
 
-    const texts = regions.map((r) => r.fullText);
-    const translations = await translator.translateBatch(texts, fromLang, toLang);
+    // Paragraphs spanning several regions, possibly into the first region of the
+    // next page; not across pages left out of the selection
+    const nextFirst = next && next.pageNum === pageNum + 1 ? next.regions[0] : undefined;
+    const candidates = nextFirst ? [...regions, nextFirst] : regions;
+    const chains = groupContinuations(candidates, (i) =>
+      i < regions.length ? !skipped.has(i) && !fromPreviousPage.has(i) : !isSkipped(candidates[i])
+    ).filter((chain) => chain[0] < regions.length);
 
-    const translatedRegions: TranslatedRegion[] = regions.map((region, i) => ({
-      ...region,
-      translatedText: translations[i],
-    }));
+    // Group paragraphs by source language
+    const byLanguage = new Map<string, number[][]>();
+    for (const chain of chains) {
+      const lang = candidates[chain[0]].sourceLanguage || fromLang;
+      byLanguage.set(lang, [...(byLanguage.get(lang) || []), chain]);
+    }
 
-    pageRegions.set(pageNum - 1, translatedRegions);
-    page.cleanup();
+    await tracker.time('translate', async () => {
+      for (const [lang, langChains] of byLanguage) {
+        // Formula placeholders are numbered through the whole paragraph
+        const sources = langChains.map((chain) => renumberFormulas(chain.map((i) => ({
+          text: candidates[i].fullText,
+          formulas: candidates[i].formulas,
+        }))));
+        // Each paragraph and list item is translated on its own, so their breaks survive
+        const paragraphs = sources.map((source) => chainParagraphs(source.texts));
+        // Text that must not be translated is masked like a formula, numbered after the paragraph's formulas
+        const masked = paragraphs.map((units, j) =>
+          units.map((unit) => maskProtected(unit.text, protection, sources[j].formulas.length))
+        );
+        const result = await translateWithRetry(
+          translator,
+          masked.flat().map((unit) => unit.text),
+          lang,
+          toLang,
+          abortSignal
+        );
+        let offset = 0;
+        langChains.forEach((chain, j) => {
+          const count = paragraphs[j].length;
+          const first = sources[j].formulas.length;
+          const texts = result.translations.slice(offset, offset + count).map((text, k) => {
+            if (text === null) return null;
+            const { text: source, tokens } = masked[j][k];
+            const lost = droppedPlaceholders(source, text, tokens, first, (n) => sources[j].formulas[n].text);
+            if (lost.length > 0) {
+              // Flagged on the region the paragraph starts in
+              const i = chain[paragraphs[j][k].pieces[0].region];
+              const region = candidates[i];
+              droppedText.push({
+                page: i < regions.length ? pageNum : next!.pageNum,
+                regionIndex: i < regions.length ? i : 0,
+                className: region.layoutBox.className,
+                text: restoreFormulas(region.fullText, region.formulas).slice(0, 80),
+                message: `Translator dropped ${lost.map((token) => `"${token}"`).join(', ')}`,
+              });
+            }
+            return unmaskProtected(text, tokens, first);
+          });
+          const error = result.errors.slice(offset, offset + count).find((e) => e) || null;
+          offset += count;
+          // Paragraphs go back into their regions, each part taking the formulas whose placeholders landed in it
+          const parts = texts.includes(null)
+            ? chain.map(() => null)
+            : distributeParagraphs(paragraphs[j], texts, chain.length)
+              .map((part) => collectFormulas(part, sources[j].formulas));
+          chain.forEach((i, k) => {
+            if (i < regions.length) {
+              translations[i] = parts[k];
+              errors[i] = error;
+            } else {
+              carried.set(candidates[i], { text: parts[k], error });
+            }
+          });
+        });
+      }
+    });
+
+    // Failed regions keep their original text: no white box is drawn over them
+    const translatedRegions: TranslatedRegion[] = [];
+    regions.forEach((region, i) => {
+      if (skipped.has(i)) return;
+      const translation = translations[i];
+      if (translation === null) {
+        lastError = errors[i] || lastError;
+        warnings.push({
+          page: pageNum,
+          regionIndex: i,
+          className: region.layoutBox.className,
+          text: restoreFormulas(region.fullText, region.formulas).slice(0, 80),
+          message: errors[i] || 'Unknown error',
+        });
+        return;
+      }
+      translatedRegions.push(withTranslation(region, translation));
+    });
+
+    if (translatedRegions.length > 0) {
+      pageRegions.set(pageNum - 1, translatedRegions);
+    }
+    // Pages with failures aren't checkpointed so a resumed run retries them,
+    // and neither are the pages waiting on them
+    if (translatedRegions.length + skipped.size !== regions.length) {
+      deferredSaves = [];
+    } else if (carried.size > 0) {
+      deferredSaves.push({ pageNum, regions: translatedRegions });
+    } else {
+      for (const saved of deferredSaves) checkpoint?.save(saved.pageNum, saved.regions);
+      deferredSaves = [];
+      checkpoint?.save(pageNum, translatedRegions);
+    }
+    tracker.addRegionsDone(regions.length);
+    tracker.pageFinished();
+    translationWork++;
+    reportProgress('Translating...', idx);
+  };
+
+  try {
+    let pending: AnalyzedPage | null = null;
+    let analyzed: AnalyzedPage | null;
+    while ((analyzed = await queue.take()) !== null) {
+      await waitWhilePaused?.();
+      throwIfAborted(abortSignal);
+      if (pending) await translatePage(pending, analyzed);
+      pending = analyzed;
+    }
+    throwIfAborted(abortSignal);
+    if (pending) await translatePage(pending, null);
+  } finally {
+    queue.close();
+    await producer;
   }
 
   // Stage 6: Write output PDF
-  if (abortSignal?.aborted) {
-    throw new Error('Translation cancelled');
-  }
+  throwIfAborted(abortSignal);
 
-  onProgress({
-    stage: 'Writing PDF...',
-    currentPage: processCount,
-    totalPages: processCount,
-    percent: 95,
-  });
+  // Nothing could be translated at all: most likely a configuration problem
+  if (warnings.length > 0 && pageRegions.size === 0) {
+    throw new Error(lastError);
+  }
 
-  await writePdf(inputPath, outputPath, pageRegions, fontPath, boldFontPath);
+  onProgress(progressEvent('Writing PDF...', processCount, 95));
 
-  onProgress({
-    stage: 'Complete!',
-    currentPage: processCount,
-    totalPages: processCount,
-    percent: 100,
+  await tracker.time('write', async () => {
+    await writePdf(inputPath, outputPath, pageRegions, assets.fontPath, assets.boldFontPath);
+    if (debugOutputPath) {
+      await writeDebugPdf(inputPath, debugOutputPath, debugPages, pageRegions);
+    }
+    if (exportJsonPath) {
+      saveTranslationDocument(exportJsonPath, createTranslationDocument(inputPath, pageRegions, fromLang, toLang));
+    }
   });
+  checkpoint?.remove();
+
+  onProgress(progressEvent('Complete!', processCount, 100));
 
   return {
     usage: translator.getUsage?.(),
+    warnings,
+    sourceLanguage: fromLang,
+    timings: tracker.timings(),
+    elapsedMs: tracker.elapsedMs(),
+    layoutFallback: layout.fallbackReason,
+    ocrUnavailable: describeMissedOcr(ocr),
+    droppedText,
+  };
+}
+
+/**
+ * A region with its translation. `formulas` now belongs to the translation's
+ * placeholders, so the source text gets its formulas back as plain text.
+ */
+function withTranslation(region: TranslatableRegion, translation: RegionTranslation): TranslatedRegion {
+  const { formulas, ...rest } = region;
+  const translated: TranslatedRegion = {
+    ...rest,
+    fullText: restoreFormulas(region.fullText, formulas),
+    translatedText: translation.text,
   };
+  if (translation.formulas.length > 0) translated.formulas = translation.formulas;
+  return translated;
+}
+
+/** Match text to layout boxes and sort the regions column by column */
+function matchInReadingOrder(
+  layoutBoxes: LayoutBox[],
+  textBlocks: TextBlock[],
+  pageHeight: number,
+  scale: number,
+  options?: MatchOptions
+): MatchResult {
+  const { regions, dropped } = matchRegionsDetailed(layoutBoxes, textBlocks, pageHeight, scale, options);
+  return { regions: orderRegions(regions), dropped };
+}
+
+/** What analyzePdfPage needs to run layout detection */
+interface LayoutConfig {
+  /** null: group the text layer heuristically instead of running a model */
+  model: LayoutModelSpec | null;
+  thresholds: LayoutThresholds;
+  /** Split detected tables into cells and translate them (model only; the heuristic finds no tables) */
+  translateTables: boolean;
+  /** Why the selected model is not used although model mode was selected */
+  fallbackReason?: string;
+}
+
+/**
+ * Load the layout model on every worker. Uses the heuristic layout instead in
+ * fast mode, or when the model is missing or fails to load.
+ */
+async function prepareLayout(pool: WorkerPool, settings: AppSettings, assets: PipelineAssets): Promise<LayoutConfig> {
+  const thresholds = resolveLayoutThresholds(settings.layoutThresholds);
+  const translateTables = !!settings.translateTables;
+  if (settings.layoutMode === 'fast') {
+    return { model: null, thresholds, translateTables };
+  }
+  try {
+    await loadModelInPool(pool, assets.layoutModel.file);
+    return { model: assets.layoutModel, thresholds, translateTables, fallbackReason: assets.layoutFallback };
+  } catch (err: any) {
+    const fallbackReason = `Layout model "${assets.layoutModel.name}" could not be loaded (${err?.message || err}); used fast layout instead`;
+    console.warn(fallbackReason);
+    return { model: null, thresholds, translateTables, fallbackReason };
+  }
+}
+
+/** What analyzePdfPage needs to OCR scanned pages */
+interface OcrConfig {
+  /** null: no OCR models installed, or they failed to load */
+  models: OcrModelPaths | null;
+  /** OCR every page, not only those without a usable text layer */
+  force: boolean;
+  /** 1-based pages that needed OCR but didn't get it */
+  missedPages: number[];
+  /** Why OCR failed, if it did */
+  error?: string;
+}
+
+function prepareOcr(assets: PipelineAssets, force = false): OcrConfig {
+  return { models: ocrModelsAvailable(assets.ocr) ? assets.ocr : null, force, missedPages: [] };
+}
+
+/** Whether a page's text layer is missing or too thin to translate */
+function needsOcr(textBlocks: TextBlock[], ocr: OcrConfig): boolean {
+  if (ocr.force) return true;
+  const chars = textBlocks.reduce((sum, block) => sum + block.text.replace(/\s/g, '').length, 0);
+  return chars < OCR_MIN_TEXT_CHARS;
+}
+
+/**
+ * Replace a page's text layer with OCR results, read from a render sharper
+ * than the layout model's. Keeps the text layer when OCR is unavailable;
+ * after a failure OCR is not tried again for this run.
+ */
+async function ocrPage(
+  pool: WorkerPool,
+  ocr: OcrConfig,
+  inputPath: string,
+  pageNum: number,
+  pageHeight: number,
+  textLayer: TextBlock[]
+): Promise<TextBlock[]> {
+  if (ocr.models) {
+    try {
+      const { lines, scale } = await recognizeTextInPool(pool, ocr.models, inputPath, pageNum);
+      return ocrLinesToTextBlocks(lines, pageHeight, scale);
+    } catch (err: any) {
+      ocr.error = err?.message || String(err);
+      ocr.models = null;
+      console.warn(`OCR failed on page ${pageNum}:`, ocr.error);
+    }
+  }
+  ocr.missedPages.push(pageNum);
+  return textLayer;
+}
+
+function describeMissedOcr(ocr: OcrConfig): string | undefined {
+  if (ocr.missedPages.length === 0) return undefined;
+  const pages = [...ocr.missedPages].sort((a, b) => a - b).join(', ');
+  const reason = ocr.error ? `OCR failed (${ocr.error})` : 'OCR models are not installed';
+  return `${reason}; page(s) ${pages} have little or no text layer and may be left untranslated`;
+}
+
+/**
+ * Stages 1-4 for one page: render, detect layout, extract text (or OCR it), match regions.
+ * Without a layout model the page is only rendered when it needs OCR; layout comes from the text.
+ * onStage is called three times, as each stage starts; an aborted signal stops before the next stage.
+ */
+async function analyzePdfPage(
+  pool: WorkerPool,
+  pdfDocument: any,
+  inputPath: string,
+  layout: LayoutConfig,
+  ocr: OcrConfig,
+  pageNum: number,
+  signal: AbortSignal | undefined,
+  onStage: (stage: string) => void,
+  tracker?: ProgressTracker
+): Promise<PageDebugInfo> {
+  const time = <T>(stage: PipelineStage, fn: () => T | Promise<T>) => tracker ? tracker.time(stage, fn) : fn();
+
+  if (!layout.model) {
+    throwIfAborted(signal);
+    onStage('Extracting text...');
+    const page = await pdfDocument.getPage(pageNum);
+    const viewport = page.getViewport({ scale: 1.0 });
+    let textBlocks: TextBlock[] = await time('extract', () => extractText(page));
+    if (needsOcr(textBlocks, ocr)) {
+      const textLayer = textBlocks;
+      textBlocks = await time('ocr', () => ocrPage(pool, ocr, inputPath, pageNum, viewport.height, textLayer));
+    }
+
+    // Boxes are in PDF points, i.e. an "image" at scale 1
+    throwIfAborted(signal);
+    onStage('Grouping text into paragraphs...');
+    const layoutBoxes = await time('layout', () => detectLayoutHeuristic(textBlocks, viewport.height, 1));
+
+    onStage('Matching regions...');
+    const { regions, dropped } = await time('match', () => matchInReadingOrder(layoutBoxes, textBlocks, viewport.height, 1));
+
+    page.cleanup();
+    return { layoutBoxes, textBlocks, regions, dropped, pageHeight: viewport.height, scale: 1 };
+  }
+
+  // Stage 1: Render page to image
+  throwIfAborted(signal);
+  onStage('Rendering page...');
+  const rendered = await time('render', () => renderPageInPool(pool, inputPath, pageNum));
+
+  // Stage 2: Layout detection
+  throwIfAborted(signal);
+  onStage('Detecting layout...');
+  const layoutBoxes = await time('layout', () => detectLayoutInPool(pool, layout.model, rendered, layout.thresholds));
+
+  // Stage 3: Text extraction, or OCR of the rendered image for scanned pages
+  throwIfAborted(signal);
+  onStage('Extracting text...');
+  const page = await pdfDocument.getPage(pageNum);
+  const viewport = page.getViewport({ scale: 1.0 });
+  let textBlocks: TextBlock[] = await time('extract', () => extractText(page));
+  if (needsOcr(textBlocks, ocr)) {
+    const textLayer = textBlocks;
+    textBlocks = await time('ocr', () => ocrPage(pool, ocr, inputPath, pageNum, viewport.height, textLayer));
+  }
+
+  // Table rules help find cells; they are only read when there is a table to split
+  let rulings: BBox[] = [];
+  if (layout.translateTables && layoutBoxes.some((box) => box.className === 'table')) {
+    rulings = await time('extract', () => extractRulings(page).catch((err) => {
+      console.warn(`Could not read table rules on page ${pageNum}:`, err);
+      return [];
+    }));
+  }
+
+  // Stage 4: Region matching
+  const { regions, dropped } = await time('match', () => matchInReadingOrder(
+    layoutBoxes,
+    textBlocks,
+    viewport.height,
+    rendered.scale,
+    { translateTables: layout.translateTables, rulings }
+  ));
+
+  page.cleanup();
+  return { layoutBoxes, textBlocks, regions, dropped, pageHeight: viewport.height, scale: rendered.scale };
+}
+
+export interface EstimateOptions {
+  inputPath: string;
+  settings: AppSettings;
+  assets: PipelineAssets;
+  onProgress: (event: ProgressEvent) => void;
+  abortSignal?: AbortSignal;
+  selectedPages?: number[];
+  customPrompt?: string;
+  forceOcr?: boolean;
+}
+
+/**
+ * Run render, detect and extract only, and estimate what translating the
+ * document would send to the translator and cost.
+ */
+export async function estimatePdf(options: EstimateOptions): Promise<CostEstimate> {
+  const { inputPath, settings, assets, onProgress, abortSignal, selectedPages, customPrompt, forceOcr } = options;
+  const pool = new WorkerPool(WORKER_SCRIPT, resolveWorkerCount(settings.workerThreads));
+  let pdfDocument: any = null;
+  try {
+    onProgress({ stage: 'Loading layout model...', currentPage: 0, totalPages: 0, percent: 0 });
+    const layout = await prepareLayout(pool, settings, assets);
+    const ocr = prepareOcr(assets, forceOcr);
+
+    const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    pdfDocument = await pdfjsLib.getDocument({
+      url: inputPath,
+      useSystemFonts: true,
+      CanvasFactory: NodeCanvasFactory,
+    }).promise;
+    const totalPages = pdfDocument.numPages;
+    const pagesToProcess: number[] = selectedPages && selectedPages.length > 0
+      ? selectedPages.filter((p) => p >= 1 && p <= totalPages)
+      : Array.from({ length: totalPages }, (_, i) => i + 1);
+    const toLang = settings.targetLanguage || 'zh-CN';
+    const autoDetect = !settings.sourceLanguage || settings.sourceLanguage === 'auto';
+
+    // Analyse up to one page per worker at a time
+    const analyzed: EstimatedPage[] = [];
+    let nextIdx = 0;
+    let finished = 0;
+    const worker = async () => {
+      while (nextIdx < pagesToProcess.length) {
+        if (abortSignal?.aborted) throw new Error('Estimate cancelled');
+        const idx = nextIdx++;
+        const { regions } = await analyzePdfPage(
+          pool, pdfDocument, inputPath, layout, ocr, pagesToProcess[idx], abortSignal, () => undefined
+        );
+        // In auto mode, regions already in the target language would be skipped
+        analyzed[idx] = {
+          pageNum: pagesToProcess[idx],
+          regions,
+          skipped: regions.map((region) => autoDetect && isSameLanguage(detectLanguage(region.fullText) || '', toLang)),
+        };
+        finished++;
+        onProgress({
+          stage: 'Analyzing pages...',
+          currentPage: finished,
+          totalPages: pagesToProcess.length,
+          percent: (finished / pagesToProcess.length) * 100,
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(pool.size, pagesToProcess.length) }, worker));
+
+    const regionCount = analyzed.reduce((sum, page) => sum + page.skipped.filter((skip) => !skip).length, 0);
+    return estimateCost(pagesToProcess.length, regionCount, estimateRequests(analyzed), settings, customPrompt);
+  } finally {
+    await pdfDocument?.destroy();
+    await pool.destroy();
+  }
+}
+
+interface EstimatedPage {
+  pageNum: number;
+  regions: TranslatableRegion[];
+  /** Per region, whether it is already in the target language */
+  skipped: boolean[];
+}
+
+/**
+ * The texts the translator would be sent for the analysed pages, built as
+ * translatePage builds them: one request per paragraph of each chain of
+ * regions, a chain running on into the first region of the next page.
+ */
+function estimateRequests(pages: EstimatedPage[]): string[] {
+  const requests: string[] = [];
+  // Whether the page's first region was translated with the page before
+  let carried = false;
+  pages.forEach((page, idx) => {
+    const { regions, skipped } = page;
+    const next = pages[idx + 1];
+    const nextFirst = next && next.pageNum === page.pageNum + 1 && !next.skipped[0] ? next.regions[0] : undefined;
+    const candidates = nextFirst ? [...regions, nextFirst] : regions;
+    const chains = groupContinuations(candidates, (i) =>
+      i < regions.length ? !skipped[i] && !(i === 0 && carried) : true
+    ).filter((chain) => chain[0] < regions.length);
+    carried = chains.some((chain) => chain.includes(regions.length));
+    for (const chain of chains) {
+      requests.push(...chainParagraphs(chain.map((i) => candidates[i].fullText)).map((paragraph) => paragraph.text));
+    }
+  });
+  return requests;
+}
+
+export interface TypesetOptions {
+  inputPath: string;
+  outputPath: string;
+  /** Translation document exported by an earlier run (possibly edited) */
+  documentPath: string;
+  assets: PipelineAssets;
+  onProgress: (event: ProgressEvent) => void;
+}
+
+/**
+ * Write the output PDF from a translation document, skipping render, detect
+ * and translate.
+ */
+export async function typesetDocument(options: TypesetOptions): Promise<void> {
+  const { inputPath, outputPath, documentPath, assets, onProgress } = options;
+
+  const doc = loadTranslationDocument(documentPath);
+  if (doc.source?.sha256 && doc.source.sha256 !== hashFile(inputPath)) {
+    throw new Error(`Translation document was made from a different PDF (${doc.source.fileName})`);
+  }
+  const pageRegions = documentToPageRegions(doc);
+
+  onProgress({ stage: 'Writing PDF...', currentPage: 0, totalPages: doc.pages.length, percent: 50 });
+  await writePdf(inputPath, outputPath, pageRegions, assets.fontPath, assets.boldFontPath);
+  onProgress({ stage: 'Complete!', currentPage: doc.pages.length, totalPages: doc.pages.length, percent: 100 });
+}
+
+/**
+ * Detect the dominant language from the text layer of the first few pages.
+ */
+async function detectDocumentLanguage(pdfDocument: any, pageNumbers: number[]): Promise<string | null> {
+  const samples: string[] = [];
+  for (const pageNum of pageNumbers.slice(0, LANGUAGE_SAMPLE_PAGES)) {
+    const page = await pdfDocument.getPage(pageNum);
+    const blocks = await extractText(page);
+    samples.push(blocks.map((b) => b.text).join(' '));
+    page.cleanup();
+  }
+  return detectLanguage(samples.join(' '));
 }
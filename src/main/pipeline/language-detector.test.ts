@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, isSameLanguage } from './language-detector';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['en', 'The results of the experiment are shown in the table, and they agree with the model.'],
+    ['de', 'Die Ergebnisse des Versuchs sind in der Tabelle dargestellt und stimmen mit dem Modell überein.'],
+    ['fr', 'Les résultats de cette expérience sont présentés dans le tableau et sont conformes au modèle.'],
+    ['es', 'Los resultados del experimento se muestran en la tabla y coinciden con el modelo para los datos.'],
+    ['ru', 'Результаты эксперимента приведены в таблице и согласуются с моделью.'],
+    ['zh-CN', '这个实验的结果见表格，与模型的预测一致，说明这种方法可以应用于实际问题。'],
+    ['zh-TW', '這個實驗的結果見表格，與模型的預測一致，說明這種方法可以應用於實際問題。'],
+    ['ja', 'この実験の結果は表に示されており、モデルの予測と一致しています。'],
+    ['ko', '실험 결과는 표에 나와 있으며 모델의 예측과 일치합니다.'],
+  ])('recognises %s', (language, text) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('reads mostly-Chinese text with Latin terms as Chinese', () => {
+    expect(detectLanguage('我们使用 Transformer 模型进行实验，这个方法的结果在表中。')).toBe('zh-CN');
+  });
+
+  it('gives up on text that is too short', () => {
+    expect(detectLanguage('Fig. 3')).toBeNull();
+  });
+
+  it('gives up on Latin text without enough stop words', () => {
+    expect(detectLanguage('Xylophone quartz jumping zebra vortex')).toBeNull();
+  });
+});
+
+describe('isSameLanguage', () => {
+  it('ignores regional variants', () => {
+    expect(isSameLanguage('en', 'en-US')).toBe(true);
+    expect(isSameLanguage('pt-BR', 'pt')).toBe(true);
+  });
+
+  it('keeps Simplified and Traditional Chinese apart', () => {
+    expect(isSameLanguage('zh-CN', 'zh-TW')).toBe(false);
+    expect(isSameLanguage('zh-cn', 'zh-CN')).toBe(true);
+  });
+
+  it('tells different languages apart', () => {
+    expect(isSameLanguage('en', 'de')).toBe(false);
+  });
+});
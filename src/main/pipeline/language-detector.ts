@@ -0,0 +1,121 @@
+/**
+ * Offline source-language detection for extracted PDF text.
+ * Uses Unicode script counts for CJK/Cyrillic text and stop-word frequencies
+ * for Latin-script languages. No network access or model files.
+ */
+
+/** Below this many letters a guess is not reliable enough */
+const MIN_LETTERS = 12;
+/** Minimum stop-word hits before a Latin-script language is reported */
+const MIN_STOPWORD_HITS = 2;
+/** Share of kana among CJK characters that marks text as Japanese */
+const KANA_RATIO = 0.05;
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'with', 'as', 'are', 'this', 'on', 'by', 'be', 'we', 'which', 'from', 'it', 'an'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'den', 'von', 'zu', 'sich', 'des', 'auf', 'für', 'eine', 'ein', 'dem', 'wir', 'werden', 'auch'],
+  fr: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'du', 'dans', 'que', 'pour', 'sur', 'pas', 'au', 'avec', 'sont', 'nous', 'cette', 'qui', 'il'],
+  es: ['el', 'los', 'las', 'que', 'y', 'es', 'una', 'por', 'con', 'para', 'del', 'se', 'su', 'al', 'como', 'más', 'este', 'lo', 'entre', 'pero'],
+  it: ['il', 'di', 'che', 'e', 'per', 'della', 'sono', 'non', 'gli', 'nel', 'è', 'alla', 'questo', 'anche', 'delle', 'dei', 'nella', 'una', 'come', 'più'],
+  pt: ['o', 'do', 'da', 'em', 'um', 'não', 'uma', 'os', 'no', 'na', 'mais', 'dos', 'das', 'ao', 'pelo', 'pela', 'também', 'são', 'foi', 'como'],
+};
+
+const STOPWORD_LOOKUP: Map<string, string[]> = (() => {
+  const lookup = new Map<string, string[]>();
+  for (const [lang, words] of Object.entries(STOPWORDS)) {
+    for (const word of words) {
+      lookup.set(word, [...(lookup.get(word) || []), lang]);
+    }
+  }
+  return lookup;
+})();
+
+/** Characters that only occur in Simplified or only in Traditional Chinese */
+const SIMPLIFIED_CHARS = new Set('这个们来时为说国会学对发经过动还后进实现问题开关长门见头点体认种样应从无与书语变电机车数业东边');
+const TRADITIONAL_CHARS = new Set('這個們來時為說國會學對發經過動還後進實現問題開關長門見頭點體認種樣應從無與書語變電機車數業東邊');
+
+const HAN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+const KANA = /[\u3040-\u30ff\u31f0-\u31ff]/;
+const HANGUL = /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/;
+const CYRILLIC = /[\u0400-\u04ff]/;
+const LATIN = /[A-Za-z\u00c0-\u024f]/;
+
+/**
+ * Detect the language of a piece of text.
+ * Returns a language code as used in settings (e.g. 'en', 'zh-CN', 'ja'),
+ * or null if the text is too short or ambiguous.
+ */
+export function detectLanguage(text: string): string | null {
+  let han = 0, kana = 0, hangul = 0, cyrillic = 0, latin = 0;
+  let simplified = 0, traditional = 0;
+
+  for (const ch of text) {
+    if (HAN.test(ch)) {
+      han++;
+      if (SIMPLIFIED_CHARS.has(ch)) simplified++;
+      else if (TRADITIONAL_CHARS.has(ch)) traditional++;
+    } else if (KANA.test(ch)) kana++;
+    else if (HANGUL.test(ch)) hangul++;
+    else if (CYRILLIC.test(ch)) cyrillic++;
+    else if (LATIN.test(ch)) latin++;
+  }
+
+  const cjk = han + kana + hangul;
+  if (cjk + cyrillic + latin < MIN_LETTERS) {
+    return null;
+  }
+
+  // CJK characters carry far more information each than Latin letters
+  if (cjk * 3 >= latin + cyrillic) {
+    if (hangul >= han + kana) return 'ko';
+    if (kana >= cjk * KANA_RATIO) return 'ja';
+    return traditional > simplified ? 'zh-TW' : 'zh-CN';
+  }
+  if (cyrillic > latin) return 'ru';
+
+  return detectLatinLanguage(text);
+}
+
+function detectLatinLanguage(text: string): string | null {
+  const scores = new Map<string, number>();
+  const words = text.toLowerCase().match(/[a-z\u00c0-\u024f]+/g) || [];
+  for (const word of words) {
+    for (const lang of STOPWORD_LOOKUP.get(word) || []) {
+      scores.set(lang, (scores.get(lang) || 0) + 1);
+    }
+  }
+
+  let best: string | null = null;
+  let bestScore = 0;
+  let secondScore = 0;
+  for (const [lang, score] of scores) {
+    if (score > bestScore) {
+      secondScore = bestScore;
+      best = lang;
+      bestScore = score;
+    } else if (score > secondScore) {
+      secondScore = score;
+    }
+  }
+
+  if (bestScore < MIN_STOPWORD_HITS || bestScore === secondScore) {
+    return null;
+  }
+  return best;
+}
+
+/**
+ * Whether two language codes refer to the same language.
+ * Regional variants are ignored except for Chinese, where Simplified and
+ * Traditional are treated as different targets.
+ */
+export function isSameLanguage(a: string, b: string): boolean {
+  const na = a.toLowerCase();
+  const nb = b.toLowerCase();
+  const baseA = na.split('-')[0];
+  const baseB = nb.split('-')[0];
+  if (baseA === 'zh' && baseB === 'zh') {
+    return na === nb;
+  }
+  return baseA === baseB;
+}
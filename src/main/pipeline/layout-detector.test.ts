@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { suppressOverlaps } from './layout-detector';
+import { BBox, DEFAULT_SETTINGS, LayoutBox, LayoutClass, LAYOUT_CLASSES } from './types';
+
+const THRESHOLDS = DEFAULT_SETTINGS.layoutThresholds;
+
+function box(className: LayoutClass, confidence: number, bbox: BBox): LayoutBox {
+  return { bbox, classId: LAYOUT_CLASSES.indexOf(className), className, confidence };
+}
+
+describe('suppressOverlaps', () => {
+  it('keeps the more confident of two overlapping boxes of a class', () => {
+    const weak = box('plain_text', 0.6, { x: 0, y: 0, width: 100, height: 50 });
+    const strong = box('plain_text', 0.9, { x: 5, y: 0, width: 100, height: 50 });
+    expect(suppressOverlaps([weak, strong], THRESHOLDS, false)).toEqual([strong]);
+  });
+
+  it('keeps boxes of a class that overlap less than its IoU threshold', () => {
+    const a = box('plain_text', 0.9, { x: 0, y: 0, width: 100, height: 50 });
+    const b = box('plain_text', 0.8, { x: 0, y: 40, width: 100, height: 50 });
+    expect(suppressOverlaps([a, b], THRESHOLDS, false)).toEqual([a, b]);
+  });
+
+  it('uses the threshold of the class', () => {
+    const a = box('title', 0.9, { x: 0, y: 0, width: 100, height: 50 });
+    const b = box('title', 0.8, { x: 20, y: 0, width: 100, height: 50 });
+    expect(suppressOverlaps([a, b], THRESHOLDS, false)).toEqual([a]);
+    const loose = { ...THRESHOLDS, title: { confidence: 0.25, iou: 0.8 } };
+    expect(suppressOverlaps([a, b], loose, false)).toEqual([a, b]);
+  });
+
+  it('only drops a box of another class when it overlaps almost completely', () => {
+    const text = box('plain_text', 0.9, { x: 0, y: 0, width: 100, height: 50 });
+    const partly = box('figure', 0.8, { x: 30, y: 0, width: 100, height: 50 });
+    const same = box('title', 0.7, { x: 2, y: 1, width: 100, height: 50 });
+    expect(suppressOverlaps([text, partly, same], THRESHOLDS, false)).toEqual([text, partly]);
+  });
+
+  it('keeps every same-class box of output already put through NMS', () => {
+    const a = box('plain_text', 0.9, { x: 0, y: 0, width: 100, height: 50 });
+    const b = box('plain_text', 0.8, { x: 5, y: 0, width: 100, height: 50 });
+    const other = box('title', 0.7, { x: 5, y: 0, width: 100, height: 50 });
+    expect(suppressOverlaps([a, b, other], THRESHOLDS, true)).toEqual([a, b]);
+  });
+});
@@ -1,35 +1,47 @@
 /**
- * Layout detection using ONNX DocLayout-YOLO model.
+ * Layout detection using an ONNX YOLO-style model (DocLayout-YOLO by default).
  * Preprocesses image, runs inference, postprocesses detections.
+ * Input size, normalisation, output format and class mapping come from the
+ * model's registry spec (see layout-models.ts).
  */
 import * as ort from 'onnxruntime-node';
-import { LayoutBox, LAYOUT_CLASSES } from './types';
+import { BBox, LayoutBox, LayoutClass, LayoutThresholds, LAYOUT_CLASSES } from './types';
+import type { LayoutModelSpec } from './layout-models';
+import type { WorkerPool } from './worker-pool';
+import type { RenderedPage } from './page-renderer';
 
-const MODEL_SIZE = 1024;
-const CONF_THRESHOLD = 0.25;
-const PAD_VALUE = 114;
+/** Boxes of different classes overlapping this much are duplicates; the weaker one is dropped */
+const CROSS_CLASS_IOU = 0.7;
 
 let session: ort.InferenceSession | null = null;
+let sessionPath: string | null = null;
 
 /**
- * Load (or reuse) the ONNX model session.
+ * Load (or reuse) the ONNX model session. Loading a different model replaces the current one.
  */
 export async function loadModel(modelPath: string): Promise<void> {
-  if (!session) {
-    session = await ort.InferenceSession.create(modelPath, {
-      executionProviders: ['cpu'],
-    });
+  if (session && sessionPath === modelPath) return;
+  if (session) {
+    await session.release();
+    session = null;
   }
+  session = await ort.InferenceSession.create(modelPath, {
+    executionProviders: ['cpu'],
+  });
+  sessionPath = modelPath;
 }
 
 /**
- * Preprocess image: letterbox resize to 1024x1024, pad with gray, normalize, HWC→CHW.
+ * Preprocess image: letterbox resize to the model's input size, pad, normalize, HWC→CHW.
  */
 function preprocess(
   rgbBuffer: Buffer,
   srcWidth: number,
-  srcHeight: number
+  srcHeight: number,
+  spec: LayoutModelSpec
 ): { tensor: ort.Tensor; padInfo: { scale: number; padX: number; padY: number } } {
+  const MODEL_SIZE = spec.inputSize;
+  const { mean, std } = spec.normalization;
   const scale = Math.min(MODEL_SIZE / srcWidth, MODEL_SIZE / srcHeight);
   const newW = Math.round(srcWidth * scale);
   const newH = Math.round(srcHeight * scale);
@@ -40,9 +52,11 @@ function preprocess(
   const channels = 3;
   const data = new Float32Array(channels * MODEL_SIZE * MODEL_SIZE);
 
-  // Fill with pad value (normalized)
-  const padNorm = PAD_VALUE / 255.0;
-  data.fill(padNorm);
+  // Fill each channel with the pad value (normalized)
+  const plane = MODEL_SIZE * MODEL_SIZE;
+  for (let c = 0; c < channels; c++) {
+    data.fill((spec.padValue / 255.0 - mean[c]) / std[c], c * plane, (c + 1) * plane);
+  }
 
   // We need to resize the source image. For simplicity, use nearest-neighbor
   // since we already rendered at ~1024px via page-renderer.
@@ -56,8 +70,8 @@ function preprocess(
 
       // CHW layout: [C, H, W]
       for (let c = 0; c < 3; c++) {
-        data[c * MODEL_SIZE * MODEL_SIZE + dstY * MODEL_SIZE + dstX] =
-          rgbBuffer[srcIdx + c] / 255.0;
+        data[c * plane + dstY * MODEL_SIZE + dstX] =
+          (rgbBuffer[srcIdx + c] / 255.0 - mean[c]) / std[c];
       }
     }
   }
@@ -66,19 +80,52 @@ function preprocess(
   return { tensor, padInfo: { scale, padX, padY } };
 }
 
+function intersectionOverUnion(a: BBox, b: BBox): number {
+  const ix = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const iy = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (ix <= 0 || iy <= 0) return 0;
+  const intersection = ix * iy;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/**
+ * Greedy non-maximum suppression. Boxes of the same class use that class's IoU
+ * threshold; boxes of different classes are only deduplicated when they
+ * overlap almost completely (CROSS_CLASS_IOU). Output the model has already
+ * put through NMS (`crossClassOnly`) keeps every same-class box.
+ */
+export function suppressOverlaps(boxes: LayoutBox[], thresholds: LayoutThresholds, crossClassOnly: boolean): LayoutBox[] {
+  const sorted = [...boxes].sort((a, b) => b.confidence - a.confidence);
+  const kept: LayoutBox[] = [];
+  for (const box of sorted) {
+    const duplicate = kept.some((k) => {
+      if (k.classId === box.classId) {
+        return !crossClassOnly && intersectionOverUnion(k.bbox, box.bbox) > thresholds[box.className].iou;
+      }
+      return intersectionOverUnion(k.bbox, box.bbox) > CROSS_CLASS_IOU;
+    });
+    if (!duplicate) kept.push(box);
+  }
+  return kept;
+}
+
 /**
  * Run layout detection on a rendered page image.
  */
 export async function detectLayout(
   rgbBuffer: Buffer,
   imgWidth: number,
-  imgHeight: number
+  imgHeight: number,
+  spec: LayoutModelSpec,
+  thresholds: LayoutThresholds
 ): Promise<LayoutBox[]> {
   if (!session) {
     throw new Error('ONNX model not loaded. Call loadModel() first.');
   }
 
-  const { tensor, padInfo } = preprocess(rgbBuffer, imgWidth, imgHeight);
+  const { tensor, padInfo } = preprocess(rgbBuffer, imgWidth, imgHeight, spec);
+  // Map a model class index onto our classes; unmapped classes are dropped
+  const mapClass = (index: number): LayoutClass | null => spec.classMap[index] ?? null;
 
   // Run inference
   const inputName = session.inputNames[0];
@@ -100,18 +147,20 @@ export async function detectLayout(
   const numRows = dims[1];
   const numCols = dims[2];
 
-  if (numCols === 6) {
+  const postNms = spec.outputFormat === 'nms' || (spec.outputFormat === 'auto' && numCols === 6);
+
+  if (postNms) {
     // Post-NMS format: [1, N, 6] where each row = [x1, y1, x2, y2, conf, classId]
     for (let i = 0; i < numRows; i++) {
       const off = i * 6;
       const conf = rawData[off + 4];
-      if (conf < CONF_THRESHOLD) continue;
+      const className = mapClass(Math.round(rawData[off + 5]));
+      if (!className || conf < thresholds[className].confidence) continue;
 
       const x1 = (rawData[off + 0] - padInfo.padX) / padInfo.scale;
       const y1 = (rawData[off + 1] - padInfo.padY) / padInfo.scale;
       const x2 = (rawData[off + 2] - padInfo.padX) / padInfo.scale;
       const y2 = (rawData[off + 3] - padInfo.padY) / padInfo.scale;
-      const classId = Math.round(rawData[off + 5]);
 
       boxes.push({
         bbox: {
@@ -120,8 +169,8 @@ export async function detectLayout(
           width: x2 - x1,
           height: y2 - y1,
         },
-        classId,
-        className: LAYOUT_CLASSES[classId] || 'plain_text',
+        classId: LAYOUT_CLASSES.indexOf(className),
+        className,
         confidence: conf,
       });
     }
@@ -131,7 +180,9 @@ export async function detectLayout(
     let numFields: number;
     let transposed: boolean;
 
-    if (numCols > numRows && numRows <= 20) {
+    // Prefer the field count implied by the class map; fall back to the shape
+    const expectedFields = 4 + spec.classMap.length;
+    if (numRows === expectedFields || (numCols !== expectedFields && numCols > numRows && numRows <= 20)) {
       // [1, F, N] transposed
       numFields = numRows;
       numDetections = numCols;
@@ -171,7 +222,8 @@ export async function detectLayout(
         }
       }
 
-      if (bestConf < CONF_THRESHOLD) continue;
+      const className = mapClass(bestClassId);
+      if (!className || bestConf < thresholds[className].confidence) continue;
 
       const x1 = (cx - w / 2 - padInfo.padX) / padInfo.scale;
       const y1 = (cy - h / 2 - padInfo.padY) / padInfo.scale;
@@ -180,12 +232,38 @@ export async function detectLayout(
 
       boxes.push({
         bbox: { x: Math.max(0, x1), y: Math.max(0, y1), width: bw, height: bh },
-        classId: bestClassId,
-        className: LAYOUT_CLASSES[bestClassId] || 'plain_text',
+        classId: LAYOUT_CLASSES.indexOf(className),
+        className,
         confidence: bestConf,
       });
     }
   }
 
-  return boxes;
+  // Raw output has not been through NMS; post-NMS output is only deduplicated across classes
+  return suppressOverlaps(boxes, thresholds, postNms);
+}
+
+/**
+ * Load the model on every worker in the pool so failures surface before any page is processed.
+ */
+export async function loadModelInPool(pool: WorkerPool, modelPath: string): Promise<void> {
+  await pool.broadcast('load-model', { modelPath });
+}
+
+/**
+ * Run layout detection on a worker thread from the pool.
+ */
+export function detectLayoutInPool(
+  pool: WorkerPool,
+  spec: LayoutModelSpec,
+  rendered: RenderedPage,
+  thresholds: LayoutThresholds
+): Promise<LayoutBox[]> {
+  return pool.run<LayoutBox[]>('detect', {
+    spec,
+    rgbBuffer: rendered.rgbBuffer,
+    width: rendered.width,
+    height: rendered.height,
+    thresholds,
+  });
 }
@@ -0,0 +1,182 @@
+/**
+ * Layout model registry: describes how to feed each ONNX layout model and how
+ * to read its output, so models other than the bundled DocLayout-YOLO can be
+ * used without code changes. Imported models live in a user directory next to
+ * a registry.json listing their specs.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { LayoutClass, LAYOUT_CLASSES, DEFAULT_SETTINGS } from './types';
+
+/**
+ * How detections are laid out in the model output:
+ * - 'nms': [1, N, 6] rows of [x1, y1, x2, y2, score, classId], already suppressed
+ * - 'raw': [1, 4 + classes, N] or [1, N, 4 + classes] with centre/size boxes and per-class scores
+ * - 'auto': pick one from the output shape
+ */
+export type LayoutOutputFormat = 'auto' | 'nms' | 'raw';
+
+export interface LayoutModelSpec {
+  /** Stable identifier stored in settings */
+  id: string;
+  /** Shown in the model picker */
+  name: string;
+  /** Absolute path once resolved; relative to the models directory in registry files */
+  file: string;
+  /** Side length of the square, letterboxed model input */
+  inputSize: number;
+  /** Per-channel (RGB) normalisation applied after scaling pixels to 0-1: (v - mean) / std */
+  normalization: { mean: [number, number, number]; std: [number, number, number] };
+  /** Letterbox padding colour, 0-255 */
+  padValue: number;
+  outputFormat: LayoutOutputFormat;
+  /** Model class index to our layout class; null ignores detections of that class */
+  classMap: (LayoutClass | null)[];
+  /** Bundled with the app; cannot be removed */
+  builtin?: boolean;
+}
+
+export const DEFAULT_LAYOUT_MODEL_ID = DEFAULT_SETTINGS.layoutModelId;
+
+const REGISTRY_FILE = 'registry.json';
+
+/** Models shipped in assets/models */
+const BUILTIN_LAYOUT_MODELS: LayoutModelSpec[] = [
+  {
+    id: DEFAULT_LAYOUT_MODEL_ID,
+    name: 'DocLayout-YOLO (DocStructBench)',
+    file: 'doclayout_yolo_docstructbench_imgsz1024.onnx',
+    inputSize: 1024,
+    normalization: { mean: [0, 0, 0], std: [1, 1, 1] },
+    padValue: 114,
+    outputFormat: 'auto',
+    classMap: [...LAYOUT_CLASSES],
+    builtin: true,
+  },
+];
+
+/** Spec used for imported models that come without a sidecar JSON */
+const IMPORT_DEFAULTS: Omit<LayoutModelSpec, 'id' | 'name' | 'file'> = {
+  inputSize: 1024,
+  normalization: { mean: [0, 0, 0], std: [1, 1, 1] },
+  padValue: 114,
+  outputFormat: 'auto',
+  classMap: [...LAYOUT_CLASSES],
+};
+
+/**
+ * Check a (possibly partial, user-written) spec and fill in defaults.
+ * Throws with a message naming the offending field.
+ */
+export function validateLayoutModelSpec(raw: any, fallback: Partial<LayoutModelSpec> = {}): LayoutModelSpec {
+  const spec = { ...IMPORT_DEFAULTS, ...fallback, ...raw } as LayoutModelSpec;
+  const where = `Layout model "${spec.id || spec.file || '?'}"`;
+
+  if (typeof spec.id !== 'string' || !spec.id) throw new Error(`${where}: missing "id"`);
+  if (typeof spec.file !== 'string' || !spec.file) throw new Error(`${where}: missing "file"`);
+  if (!Number.isInteger(spec.inputSize) || spec.inputSize < 32) {
+    throw new Error(`${where}: "inputSize" must be an integer of at least 32`);
+  }
+  const { mean, std } = spec.normalization || ({} as LayoutModelSpec['normalization']);
+  if (!Array.isArray(mean) || mean.length !== 3 || !Array.isArray(std) || std.length !== 3 || std.some((s) => !s)) {
+    throw new Error(`${where}: "normalization" needs three-element "mean" and non-zero "std" arrays`);
+  }
+  if (!['auto', 'nms', 'raw'].includes(spec.outputFormat)) {
+    throw new Error(`${where}: "outputFormat" must be "auto", "nms" or "raw"`);
+  }
+  if (!Array.isArray(spec.classMap) || spec.classMap.length === 0) {
+    throw new Error(`${where}: "classMap" must be a non-empty array`);
+  }
+  for (const name of spec.classMap) {
+    if (name !== null && !LAYOUT_CLASSES.includes(name)) {
+      throw new Error(`${where}: unknown class "${name}" in "classMap" (expected one of ${LAYOUT_CLASSES.join(', ')} or null)`);
+    }
+  }
+  return { ...spec, name: spec.name || spec.id };
+}
+
+function readRegistry(userModelsDir: string): LayoutModelSpec[] {
+  const registryPath = path.join(userModelsDir, REGISTRY_FILE);
+  if (!fs.existsSync(registryPath)) return [];
+  const entries = JSON.parse(fs.readFileSync(registryPath, 'utf-8'));
+  if (!Array.isArray(entries)) {
+    throw new Error(`${registryPath} must contain an array of layout model specs`);
+  }
+  return entries.map((entry) => validateLayoutModelSpec(entry));
+}
+
+function writeRegistry(userModelsDir: string, specs: LayoutModelSpec[]): void {
+  fs.mkdirSync(userModelsDir, { recursive: true });
+  fs.writeFileSync(path.join(userModelsDir, REGISTRY_FILE), JSON.stringify(specs, null, 2));
+}
+
+/**
+ * All available models with absolute file paths: bundled ones first, then imported.
+ */
+export function listLayoutModels(assetsDir: string, userModelsDir?: string): LayoutModelSpec[] {
+  const builtin = BUILTIN_LAYOUT_MODELS.map((spec) => ({
+    ...spec,
+    file: path.join(assetsDir, 'models', spec.file),
+  }));
+  const imported = userModelsDir
+    ? readRegistry(userModelsDir).map((spec) => ({ ...spec, file: path.resolve(userModelsDir, spec.file) }))
+    : [];
+  return [...builtin, ...imported];
+}
+
+/**
+ * Look up a model by ID. Throws if it is not registered.
+ */
+export function findLayoutModel(id: string, assetsDir: string, userModelsDir?: string): LayoutModelSpec {
+  const spec = listLayoutModels(assetsDir, userModelsDir).find((m) => m.id === id);
+  if (!spec) {
+    throw new Error(`Layout model "${id}" is not installed. Pick another model in Settings.`);
+  }
+  return spec;
+}
+
+/**
+ * Build a spec for an ONNX file given directly (e.g. on the command line).
+ * A sidecar JSON with the same base name (model.onnx -> model.json) may override any field.
+ */
+export function layoutModelFromFile(modelPath: string): LayoutModelSpec {
+  const base = path.basename(modelPath, path.extname(modelPath));
+  const sidecarPath = path.join(path.dirname(modelPath), `${base}.json`);
+  const sidecar = fs.existsSync(sidecarPath) ? JSON.parse(fs.readFileSync(sidecarPath, 'utf-8')) : {};
+  return validateLayoutModelSpec({ ...sidecar, file: modelPath }, { id: base, name: base });
+}
+
+/**
+ * Copy an ONNX model into the user models directory and register it.
+ * Returns the registered spec (with an absolute file path).
+ */
+export function importLayoutModel(userModelsDir: string, sourcePath: string, existingIds: string[]): LayoutModelSpec {
+  const fromFile = layoutModelFromFile(sourcePath);
+
+  // Keep IDs unique: "my-model", "my-model-2", ...
+  const taken = new Set(existingIds);
+  const baseId = fromFile.id.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'layout-model';
+  let id = baseId;
+  for (let n = 2; taken.has(id); n++) id = `${baseId}-${n}`;
+
+  const fileName = `${id}.onnx`;
+  fs.mkdirSync(userModelsDir, { recursive: true });
+  fs.copyFileSync(sourcePath, path.join(userModelsDir, fileName));
+
+  const spec: LayoutModelSpec = { ...fromFile, id, file: fileName };
+  delete spec.builtin;
+  writeRegistry(userModelsDir, [...readRegistry(userModelsDir), spec]);
+  return { ...spec, file: path.join(userModelsDir, fileName) };
+}
+
+/**
+ * Unregister an imported model and delete its file. Returns false if no such imported model exists.
+ */
+export function removeLayoutModel(userModelsDir: string, id: string): boolean {
+  const specs = readRegistry(userModelsDir);
+  const spec = specs.find((s) => s.id === id);
+  if (!spec) return false;
+  writeRegistry(userModelsDir, specs.filter((s) => s !== spec));
+  fs.rmSync(path.resolve(userModelsDir, spec.file), { force: true });
+  return true;
+}
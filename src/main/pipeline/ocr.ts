@@ -0,0 +1,282 @@
+/**
+ * OCR for pages without a usable text layer (scans), using PP-OCR style ONNX
+ * models: a DB text detector finds text lines on the rendered page image and
+ * a CTC recogniser reads each line. The result is turned into synthetic
+ * TextBlocks so the rest of the pipeline works as for born-digital pages.
+ */
+import fs from 'node:fs';
+import * as ort from 'onnxruntime-node';
+import { BBox, TextBlock } from './types';
+import type { WorkerPool } from './worker-pool';
+
+export interface OcrModelPaths {
+  /** Text detection model (DB) */
+  detModel: string;
+  /** Text recognition model (CRNN/SVTR with CTC output) */
+  recModel: string;
+  /** Character list of the recognition model, one character per line */
+  dictionary: string;
+}
+
+/** A recognised line of text in image pixel coordinates */
+export interface OcrLine {
+  text: string;
+  bbox: BBox;
+  confidence: number;
+}
+
+/** The lines read on one page, and the scale of the image they were read from */
+export interface OcrPage {
+  lines: OcrLine[];
+  /** Image pixels / PDF points */
+  scale: number;
+}
+
+/**
+ * Longest side of the page image OCR reads. The layout render (1024px) leaves
+ * body text under 20px high; at this size a 10pt line of an A4 page is about
+ * as tall as the recogniser's input.
+ */
+export const OCR_RENDER_SIZE = 3072;
+/** Detector input sides are multiples of this */
+const DET_STRIDE = 32;
+/** The detector reads a downscaled copy of the page; lines are still cut from the full image */
+const DET_MAX_SIDE = 1536;
+/** Pixels of the probability map above this are text */
+const DET_PIXEL_THRESHOLD = 0.3;
+/** Detected regions with a lower mean probability are dropped */
+const DET_BOX_THRESHOLD = 0.6;
+/** The detector predicts shrunk text kernels; boxes are grown back by area * ratio / perimeter */
+const DET_UNCLIP_RATIO = 1.5;
+/** Regions smaller than this (pixels, either side) are noise */
+const DET_MIN_SIZE = 3;
+const DET_MEAN = [0.485, 0.456, 0.406];
+const DET_STD = [0.229, 0.224, 0.225];
+/** Recogniser input height; widths follow the line's aspect ratio */
+const REC_HEIGHT = 48;
+const REC_MAX_WIDTH = 2048;
+/** Lines read with a lower mean character confidence are dropped */
+const REC_MIN_CONFIDENCE = 0.5;
+/** Line box height (after unclipping) in ems, to estimate a font size */
+const LINE_HEIGHT_EMS = 1.3;
+
+let detSession: ort.InferenceSession | null = null;
+let recSession: ort.InferenceSession | null = null;
+let loadedPaths: OcrModelPaths | null = null;
+let characters: string[] = [];
+
+/**
+ * Whether all OCR model files are present.
+ */
+export function ocrModelsAvailable(paths: OcrModelPaths | undefined): boolean {
+  return !!paths && [paths.detModel, paths.recModel, paths.dictionary].every((file) => fs.existsSync(file));
+}
+
+/**
+ * Load (or reuse) the detection and recognition sessions and the dictionary.
+ */
+export async function loadOcrModels(paths: OcrModelPaths): Promise<void> {
+  if (loadedPaths &&
+      loadedPaths.detModel === paths.detModel &&
+      loadedPaths.recModel === paths.recModel &&
+      loadedPaths.dictionary === paths.dictionary) {
+    return;
+  }
+  await detSession?.release();
+  await recSession?.release();
+  detSession = recSession = null;
+  loadedPaths = null;
+
+  const options: ort.InferenceSession.SessionOptions = { executionProviders: ['cpu'] };
+  detSession = await ort.InferenceSession.create(paths.detModel, options);
+  recSession = await ort.InferenceSession.create(paths.recModel, options);
+  characters = fs.readFileSync(paths.dictionary, 'utf-8').split(/\r?\n/);
+  if (characters[characters.length - 1] === '') characters.pop();
+  loadedPaths = paths;
+}
+
+/**
+ * Build a CHW tensor from an RGB image region, resized bilinearly to
+ * width x height. Channels are fed in BGR order, as PP-OCR models are trained on.
+ */
+function toTensor(
+  rgb: Buffer,
+  imgWidth: number,
+  region: BBox,
+  width: number,
+  height: number,
+  mean: number[],
+  std: number[]
+): ort.Tensor {
+  const plane = height * width;
+  const data = new Float32Array(3 * plane);
+  const sx = region.width / width;
+  const sy = region.height / height;
+  const maxX = region.x + region.width - 1;
+  const maxY = region.y + region.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(maxY, Math.max(region.y, region.y + (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(maxY, y0 + 1);
+    const wy = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(maxX, Math.max(region.x, region.x + (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(maxX, x0 + 1);
+      const wx = fx - x0;
+      for (let c = 0; c < 3; c++) {
+        const source = 2 - c;
+        const top = rgb[(y0 * imgWidth + x0) * 3 + source] * (1 - wx) + rgb[(y0 * imgWidth + x1) * 3 + source] * wx;
+        const bottom = rgb[(y1 * imgWidth + x0) * 3 + source] * (1 - wx) + rgb[(y1 * imgWidth + x1) * 3 + source] * wx;
+        const value = top * (1 - wy) + bottom * wy;
+        data[c * plane + y * width + x] = (value / 255 - mean[c]) / std[c];
+      }
+    }
+  }
+  return new ort.Tensor('float32', data, [1, 3, height, width]);
+}
+
+/**
+ * Find text line boxes: threshold the detector's probability map, take
+ * connected components, and grow each back to the full text height.
+ */
+async function detectLines(rgb: Buffer, width: number, height: number): Promise<BBox[]> {
+  const shrink = Math.min(1, DET_MAX_SIDE / Math.max(width, height));
+  const inW = Math.max(DET_STRIDE, Math.round((width * shrink) / DET_STRIDE) * DET_STRIDE);
+  const inH = Math.max(DET_STRIDE, Math.round((height * shrink) / DET_STRIDE) * DET_STRIDE);
+  const input = toTensor(rgb, width, { x: 0, y: 0, width, height }, inW, inH, DET_MEAN, DET_STD);
+  const results = await detSession!.run({ [detSession!.inputNames[0]]: input });
+  const output = results[detSession!.outputNames[0]];
+  const prob = output.data as Float32Array;
+  const dims = output.dims as number[];
+  const mapH = dims[dims.length - 2];
+  const mapW = dims[dims.length - 1];
+
+  // Connected components of text pixels (4-neighbourhood)
+  const visited = new Uint8Array(mapW * mapH);
+  const stack: number[] = [];
+  const boxes: BBox[] = [];
+  for (let start = 0; start < visited.length; start++) {
+    if (visited[start] || prob[start] <= DET_PIXEL_THRESHOLD) continue;
+    visited[start] = 1;
+    stack.push(start);
+    let minX = mapW, minY = mapH, maxX = 0, maxY = 0, sum = 0, count = 0;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % mapW;
+      const y = (i - x) / mapW;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      sum += prob[i];
+      count++;
+      const neighbours = [x > 0 ? i - 1 : -1, x < mapW - 1 ? i + 1 : -1, y > 0 ? i - mapW : -1, y < mapH - 1 ? i + mapW : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && !visited[n] && prob[n] > DET_PIXEL_THRESHOLD) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    const box = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+    if (Math.min(box.width, box.height) >= DET_MIN_SIZE && sum / count >= DET_BOX_THRESHOLD) {
+      boxes.push(box);
+    }
+  }
+
+  const scaleX = width / mapW;
+  const scaleY = height / mapH;
+  return boxes
+    .map((box) => {
+      const grow = (box.width * box.height * DET_UNCLIP_RATIO) / (2 * (box.width + box.height));
+      const x = Math.max(0, Math.floor((box.x - grow) * scaleX));
+      const y = Math.max(0, Math.floor((box.y - grow) * scaleY));
+      const right = Math.min(width, Math.ceil((box.x + box.width + grow) * scaleX));
+      const bottom = Math.min(height, Math.ceil((box.y + box.height + grow) * scaleY));
+      return { x, y, width: right - x, height: bottom - y };
+    })
+    .filter((box) => box.width >= 1 && box.height >= 1);
+}
+
+/**
+ * Read one line: greedy CTC decoding, index 0 being the blank and the index
+ * after the dictionary a space.
+ */
+async function recognizeLine(rgb: Buffer, width: number, box: BBox): Promise<{ text: string; confidence: number }> {
+  const recWidth = Math.min(REC_MAX_WIDTH, Math.max(REC_HEIGHT, Math.ceil((REC_HEIGHT * box.width) / box.height)));
+  const input = toTensor(rgb, width, box, recWidth, REC_HEIGHT, [0.5, 0.5, 0.5], [0.5, 0.5, 0.5]);
+  const results = await recSession!.run({ [recSession!.inputNames[0]]: input });
+  const output = results[recSession!.outputNames[0]];
+  const dims = output.dims as number[];
+  const steps = dims[1];
+  const classes = dims[2];
+  const data = output.data as Float32Array;
+
+  let text = '';
+  let confidence = 0;
+  let kept = 0;
+  let previous = -1;
+  for (let t = 0; t < steps; t++) {
+    let best = 0;
+    let bestProb = -Infinity;
+    for (let c = 0; c < classes; c++) {
+      const p = data[t * classes + c];
+      if (p > bestProb) { bestProb = p; best = c; }
+    }
+    if (best !== 0 && best !== previous) {
+      text += best - 1 < characters.length ? characters[best - 1] : ' ';
+      confidence += bestProb;
+      kept++;
+    }
+    previous = best;
+  }
+  return { text: text.trim(), confidence: kept > 0 ? confidence / kept : 0 };
+}
+
+/**
+ * Detect and read all text lines on a rendered page image.
+ */
+export async function recognizeText(rgb: Buffer, width: number, height: number): Promise<OcrLine[]> {
+  if (!detSession || !recSession) {
+    throw new Error('OCR models not loaded. Call loadOcrModels() first.');
+  }
+  const lines: OcrLine[] = [];
+  for (const bbox of await detectLines(rgb, width, height)) {
+    const { text, confidence } = await recognizeLine(rgb, width, bbox);
+    if (text && confidence >= REC_MIN_CONFIDENCE) {
+      lines.push({ text, bbox, confidence });
+    }
+  }
+  return lines;
+}
+
+/**
+ * OCR a page on a worker thread from the pool, which renders it at OCR_RENDER_SIZE.
+ * @param pageNum - 1-based page number
+ */
+export function recognizeTextInPool(pool: WorkerPool, models: OcrModelPaths, inputPath: string, pageNum: number): Promise<OcrPage> {
+  return pool.run<OcrPage>('ocr', { models, inputPath, pageNum });
+}
+
+/**
+ * Turn OCR lines into text blocks in page coordinates (bottom-left origin).
+ * Each block spans its whole line box, so covering it hides the scanned text.
+ *
+ * @param pageHeight - Displayed page height in points
+ * @param scale - Image pixels / PDF points
+ */
+export function ocrLinesToTextBlocks(lines: OcrLine[], pageHeight: number, scale: number): TextBlock[] {
+  return lines.map((line) => {
+    const height = line.bbox.height / scale;
+    return {
+      text: line.text.normalize('NFKC'),
+      x: line.bbox.x / scale,
+      y: pageHeight - (line.bbox.y + line.bbox.height) / scale,
+      width: line.bbox.width / scale,
+      height,
+      fontSize: height / LINE_HEIGHT_EMS,
+      fontName: 'ocr',
+    };
+  });
+}
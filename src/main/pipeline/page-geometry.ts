@@ -0,0 +1,117 @@
+/**
+ * Page coordinates vs. PDF user space.
+ *
+ * The pipeline works in page coordinates: points with a bottom-left origin,
+ * in the page's displayed orientation (after /Rotate, relative to the crop
+ * box). That is the space the rendered image shows, so layout boxes, text
+ * and reading order all agree on what is "up". For an unrotated page whose
+ * crop box starts at the origin, page coordinates are PDF user space.
+ * Drawing into the PDF converts back to user space.
+ */
+import type { PDFPage } from 'pdf-lib';
+import { BBox } from './types';
+
+/** How a page is displayed */
+export interface PageGeometry {
+  /** Visible area (crop box) in user space */
+  view: BBox;
+  /** Clockwise display rotation: 0, 90, 180 or 270 */
+  rotation: number;
+}
+
+/** Normalise an angle in degrees to one of 0, 90, 180, 270 */
+export function quarterTurns(degrees: number): number {
+  return ((Math.round(degrees / 90) % 4) + 4) % 4 * 90;
+}
+
+/**
+ * Geometry of a pdfjs page proxy (`view` is [x1, y1, x2, y2], `rotate` in degrees).
+ */
+export function pdfjsPageGeometry(page: any): PageGeometry {
+  const [x1, y1, x2, y2] = page.view;
+  return {
+    view: { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) },
+    rotation: quarterTurns(page.rotate || 0),
+  };
+}
+
+/**
+ * Geometry of a pdf-lib page, for drawing.
+ */
+export function pdfLibPageGeometry(page: PDFPage): PageGeometry {
+  return { view: page.getCropBox(), rotation: quarterTurns(page.getRotation().angle) };
+}
+
+/** Width and height of the page as displayed */
+export function pageSize(geometry: PageGeometry): { width: number; height: number } {
+  const { width, height } = geometry.view;
+  return geometry.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+}
+
+/** Convert a point from PDF user space to page coordinates */
+export function userToPage(geometry: PageGeometry, ux: number, uy: number): [number, number] {
+  const { x, y, width, height } = geometry.view;
+  const dx = ux - x;
+  const dy = uy - y;
+  switch (geometry.rotation) {
+    case 90: return [dy, width - dx];
+    case 180: return [width - dx, height - dy];
+    case 270: return [height - dy, dx];
+    default: return [dx, dy];
+  }
+}
+
+/** Convert a point from page coordinates to PDF user space */
+export function pageToUser(geometry: PageGeometry, px: number, py: number): [number, number] {
+  const { x, y, width, height } = geometry.view;
+  switch (geometry.rotation) {
+    case 90: return [x + width - py, y + px];
+    case 180: return [x + width - px, y + height - py];
+    case 270: return [x + py, y + height - px];
+    default: return [x + px, y + py];
+  }
+}
+
+/**
+ * Convert an axis-aligned box from page coordinates to user space.
+ * Rotations are quarter turns, so the result is axis-aligned too.
+ */
+export function pageBBoxToUser(geometry: PageGeometry, box: BBox): BBox {
+  const [ax, ay] = pageToUser(geometry, box.x, box.y);
+  const [bx, by] = pageToUser(geometry, box.x + box.width, box.y + box.height);
+  return { x: Math.min(ax, bx), y: Math.min(ay, by), width: Math.abs(bx - ax), height: Math.abs(by - ay) };
+}
+
+/**
+ * A box seen from text running in `rotation` (degrees counter-clockwise):
+ * its size along and across the text, and a mapping from that frame (origin
+ * at the box's bottom-left as read, x along the text) back to page coordinates.
+ */
+export function textFrame(box: BBox, rotation: number): {
+  width: number;
+  height: number;
+  toPage: (fx: number, fy: number) => [number, number];
+} {
+  const { x, y, width, height } = box;
+  switch (quarterTurns(rotation)) {
+    case 90: return { width: height, height: width, toPage: (fx, fy) => [x + width - fy, y + fx] };
+    case 180: return { width, height, toPage: (fx, fy) => [x + width - fx, y + height - fy] };
+    case 270: return { width: height, height: width, toPage: (fx, fy) => [x + fy, y + height - fx] };
+    default: return { width, height, toPage: (fx, fy) => [x + fx, y + fy] };
+  }
+}
+
+/**
+ * Rotate an axis-aligned box into the frame of text running in `rotation`,
+ * i.e. so that the text runs left to right. Inverse of textFrame's mapping
+ * for whole boxes; used to group rotated text into lines.
+ */
+export function toTextFrame(box: BBox, rotation: number): BBox {
+  const { x, y, width, height } = box;
+  switch (quarterTurns(rotation)) {
+    case 90: return { x: y, y: -(x + width), width: height, height: width };
+    case 180: return { x: -(x + width), y: -(y + height), width, height };
+    case 270: return { x: -(y + height), y: x, width: height, height: width };
+    default: return { ...box };
+  }
+}
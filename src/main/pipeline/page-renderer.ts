@@ -1,6 +1,6 @@
 /**
  * Renders a PDF page to an image buffer using pdfjs-dist + node-canvas.
- * Scales output so the longest side = 1024px.
+ * Scales output so the longest side = 1024px (more for OCR).
  *
  * pdfjs-dist v5 renders text glyphs via Path2D objects. node-canvas v3
  * does not natively support Path2D, so we polyfill it here before any
@@ -12,6 +12,7 @@ import { createCanvas, CanvasRenderingContext2D, type Canvas } from 'canvas';
 applyPath2DToCanvasRenderingContext(CanvasRenderingContext2D as any);
 
 import sharp from 'sharp';
+import type { WorkerPool } from './worker-pool';
 
 const TARGET_SIZE = 1024;
 
@@ -48,15 +49,16 @@ export class NodeCanvasFactory {
 /**
  * Render a single PDF page to an image buffer.
  * @param page - A pdfjs-dist page proxy
+ * @param targetSize - Longest side of the image in pixels
  */
-export async function renderPage(page: any): Promise<RenderedPage> {
+export async function renderPage(page: any, targetSize = TARGET_SIZE): Promise<RenderedPage> {
   const viewport = page.getViewport({ scale: 1.0 });
   const pdfWidth = viewport.width;
   const pdfHeight = viewport.height;
 
-  // Compute scale so longest side = TARGET_SIZE
+  // Compute scale so longest side = targetSize
   const longestSide = Math.max(pdfWidth, pdfHeight);
-  const scale = TARGET_SIZE / longestSide;
+  const scale = targetSize / longestSide;
 
   const scaledViewport = page.getViewport({ scale });
   const width = Math.floor(scaledViewport.width);
@@ -83,3 +85,50 @@ export async function renderPage(page: any): Promise<RenderedPage> {
 
   return { rgbBuffer, width, height, scale };
 }
+
+/** Document opened by this thread for renderPdfPage, reused across pages */
+let openDocument: { path: string; promise: Promise<any> } | null = null;
+
+/**
+ * Open a PDF (once per thread) and render one of its pages.
+ * Used inside pool workers, which cannot share pdfjs page proxies with the main thread.
+ * @param pageNum - 1-based page number
+ * @param targetSize - Longest side of the image in pixels
+ */
+export async function renderPdfPage(inputPath: string, pageNum: number, targetSize = TARGET_SIZE): Promise<RenderedPage> {
+  if (!openDocument || openDocument.path !== inputPath) {
+    if (openDocument) {
+      openDocument.promise.then((doc) => doc.destroy()).catch(() => undefined);
+    }
+    const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const loadingTask = pdfjsLib.getDocument({
+      url: inputPath,
+      useSystemFonts: true,
+      CanvasFactory: NodeCanvasFactory,
+    });
+    const opened = { path: inputPath, promise: loadingTask.promise };
+    openDocument = opened;
+    // A document that failed to load is opened afresh on the next call
+    opened.promise.catch(() => {
+      if (openDocument === opened) openDocument = null;
+    });
+  }
+  const pdfDocument = await openDocument.promise;
+  const page = await pdfDocument.getPage(pageNum);
+  try {
+    return await renderPage(page, targetSize);
+  } finally {
+    page.cleanup();
+  }
+}
+
+/**
+ * Render a page on a worker thread from the pool.
+ * @param pageNum - 1-based page number
+ */
+export async function renderPageInPool(pool: WorkerPool, inputPath: string, pageNum: number): Promise<RenderedPage> {
+  const rendered = await pool.run<RenderedPage>('render', { inputPath, pageNum });
+  // Buffers arrive as plain Uint8Arrays after crossing the thread boundary
+  const bytes = rendered.rgbBuffer as Uint8Array;
+  return { ...rendered, rgbBuffer: Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength) };
+}
@@ -2,12 +2,58 @@
  * PDF writer: overlays white rectangles over original text and draws translated text.
  * Uses pdf-lib with embedded Noto Sans SC font.
  */
-import { PDFDocument, rgb, StandardFonts, PDFName, PDFArray, PDFDict, PDFNumber } from 'pdf-lib';
+import {
+  PDFDocument,
+  PDFPage,
+  rgb,
+  degrees,
+  StandardFonts,
+  PDFName,
+  PDFArray,
+  PDFDict,
+  PDFNumber,
+  PDFHexString,
+  PDFOperator,
+  PDFOperatorNames,
+  PDFRawStream,
+  PDFContentStream,
+  PDFStream,
+  decodePDFRawStream,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+  drawObject,
+  endMarkedContent,
+} from 'pdf-lib';
 import fontkit from '@pdf-lib/fontkit';
 import fs from 'node:fs';
-import { TranslatedRegion, BBox } from './types';
+import { BBox, FormulaSpan, ParagraphLayout, TranslatedRegion } from './types';
+import { PageGeometry, pageBBoxToUser, pageToUser, pdfLibPageGeometry, textFrame } from './page-geometry';
+import { restoreFormulas, splitFormulas, textUnits } from './formula';
+import { ContentOperation, contentInArea, parseContentStream } from './content-stream';
 
 const MIN_FONT_SIZE = 6;
+/** Slant for italic text; the embedded fonts have no italic face */
+const ITALIC_SKEW_DEGREES = 12;
+/** Text lighter than this in every channel would vanish on the white cover, so it is drawn black */
+const MAX_TEXT_LIGHTNESS = 0.9;
+/** Baseline of a character stacked in vertical text, above the bottom of its square cell (in ems) */
+const VERTICAL_BASELINE_EMS = 0.12;
+const WIDE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+/** Paragraph indents are kept up to this share of the width, so the text still has room */
+const MAX_INDENT_RATIO = 0.5;
+
+/** A line of a region's translation as laid out */
+interface LayoutLine {
+  text: string;
+  /** Start of the text, from the left of the text area (as read) */
+  indent: number;
+  /** List marker drawn in front of the first line of a list item, at markerIndent */
+  marker?: string;
+  markerIndent: number;
+  /** Space above the line beyond the line height, in points */
+  spaceBefore: number;
+}
 
 /**
  * Create a modified PDF with translated text overlaid.
@@ -53,7 +99,10 @@ export async function writePdf(
   for (const [pageIndex, regions] of pageRegions) {
     if (pageIndex >= pages.length) continue;
     const page = pages[pageIndex];
-    const { height: pageHeight } = page.getSize();
+    // Regions are in page coordinates; the page may be rotated or cropped
+    const geometry = pdfLibPageGeometry(page);
+    // Inline formulas are copied from the page as it was before drawing on it
+    const original = regions.some((region) => region.formulas?.length) ? readOriginalPage(page) : null;
 
     // Compute uniform body font size from all non-title translatable regions on this page
     const bodyFontSizes: number[] = [];
@@ -78,12 +127,12 @@ export async function writePdf(
       const bbox = region.pdfBBox;
 
       // Draw white rectangle to cover original text
-      // pdfBBox.y is in PDF coords (bottom-left origin)
+      const cover = pageBBoxToUser(geometry, bbox);
       page.drawRectangle({
-        x: bbox.x,
-        y: bbox.y,
-        width: bbox.width,
-        height: bbox.height,
+        x: cover.x,
+        y: cover.y,
+        width: cover.width,
+        height: cover.height,
         color: rgb(1, 1, 1),
       });
 
@@ -91,12 +140,15 @@ export async function writePdf(
       const text = region.translatedText;
       if (!text || text.trim() === '') continue;
 
-      // Determine target font size and font weight based on region type
+      // Determine target font size and font weight based on region type and source style
       const isTitle = region.layoutBox.className === 'title';
-      const regionFont = (isTitle && boldFont) ? boldFont : customFont;
+      const isCell = region.layoutBox.className === 'table';
+      const style = region.style;
+      const regionFont = ((isTitle || style?.bold) && boldFont) ? boldFont : customFont;
+      const color = style?.color && style.color.some((c) => c < MAX_TEXT_LIGHTNESS) ? style.color : [0, 0, 0];
       let targetFontSize: number;
-      if (isTitle) {
-        // Titles: use their own average font size
+      if (isTitle || isCell) {
+        // Titles and table cells: use their own average font size
         const sizes = region.textBlocks.map(b => b.fontSize);
         targetFontSize = sizes.length > 0
           ? sizes.reduce((a, b) => a + b, 0) / sizes.length
@@ -106,36 +158,92 @@ export async function writePdf(
         targetFontSize = uniformBodySize;
       }
 
-      const padding = Math.max(2, targetFontSize * 0.15);
-      const availWidth = bbox.width - padding * 2;
-      const availHeight = bbox.height - padding * 2;
+      // Lines run the way the source text did. A vertical CJK source translated
+      // into CJK stays vertical: characters stacked upright in square cells,
+      // columns read right to left. A table cell's translation may fill the
+      // cell beyond its source text
+      const rotation = region.rotation || 0;
+      const frame = textFrame(region.cellBBox || bbox, rotation);
+      const stacked = !!region.vertical && WIDE.test(text);
+      // Inline formulas are copied from the source, scaled with the text; stacked text spells them out
+      const formulas = stacked ? [] : region.formulas || [];
+      const content = stacked ? restoreFormulas(text, region.formulas) : text;
+      const formulaScale = (formula: FormulaSpan, size: number) => size / (formula.fontSize || size);
+      const measure = (line: string, size: number) => stacked
+        ? Array.from(line).length * size
+        : splitFormulas(line, formulas).reduce((width, part) => width + (typeof part === 'string'
+          ? textWidth(regionFont, part, size)
+          : textFrame(part.bbox, rotation).width * formulaScale(part, size)), 0);
+
+      // A cell's area already starts at its text, so its translation starts where the source did
+      const padding = region.cellBBox ? 0 : Math.max(2, targetFontSize * 0.15);
+      const availWidth = frame.width - padding * 2;
+      const availHeight = frame.height - padding * 2;
+
+      // Paragraphs and list items are set as in the source; stacked text only keeps the breaks
+      const paragraphs = stacked ? [] : region.paragraphs || [];
+      const layout = (size: number) => layoutParagraphs(content, paragraphs, (line) => measure(line, size), availWidth, size);
 
       // Start with the target font size, shrink if text doesn't fit
       let fontSize = targetFontSize;
 
       // Auto-shrink until text fits
       while (fontSize > MIN_FONT_SIZE) {
-        const lines = wrapText(text, regionFont, fontSize, availWidth);
-        const totalHeight = lines.length * fontSize * 1.2;
+        const totalHeight = layout(fontSize).reduce((height, line) => height + line.spaceBefore + fontSize * 1.2, 0);
         if (totalHeight <= availHeight) break;
         fontSize -= 0.5;
       }
 
-      const lines = wrapText(text, regionFont, fontSize, availWidth);
+      const lines = layout(fontSize);
       const lineHeight = fontSize * 1.2;
+      const textOptions = {
+        size: fontSize,
+        font: regionFont,
+        color: rgb(color[0], color[1], color[2]),
+        xSkew: style?.italic ? degrees(ITALIC_SKEW_DEGREES) : undefined,
+      };
+
+      // Draw lines from top of box (as read), converting each position back to user space
+      let top = frame.height - padding;
+      for (const line of lines) {
+        top -= line.spaceBefore;
+        const lineY = top - fontSize;
+        top -= lineHeight;
+        if (lineY < 0) break; // Don't draw outside box
 
-      // Draw lines from top of box
-      for (let i = 0; i < lines.length; i++) {
-        const lineY = bbox.y + bbox.height - padding - (i + 1) * lineHeight + (lineHeight - fontSize);
-        if (lineY < bbox.y) break; // Don't draw outside box
-
-        page.drawText(lines[i], {
-          x: bbox.x + padding,
-          y: lineY,
-          size: fontSize,
-          font: regionFont,
-          color: rgb(0, 0, 0),
-        });
+        if (stacked) {
+          Array.from(line.text).forEach((char, k) => {
+            const [ax, ay] = frame.toPage(padding + k * fontSize, lineY);
+            const [bx, by] = frame.toPage(padding + (k + 1) * fontSize, lineY + fontSize);
+            const offset = (fontSize - textWidth(regionFont, char, fontSize)) / 2;
+            const [x, y] = pageToUser(geometry, Math.min(ax, bx) + offset, Math.min(ay, by) + VERTICAL_BASELINE_EMS * fontSize);
+            page.drawText(char, { ...textOptions, x, y, rotate: degrees(geometry.rotation) });
+          });
+          continue;
+        }
+
+        if (line.marker) {
+          const [x, y] = pageToUser(geometry, ...frame.toPage(padding + line.markerIndent, lineY));
+          page.drawText(line.marker, { ...textOptions, x, y, rotate: degrees(rotation + geometry.rotation) });
+        }
+        let cursor = padding + line.indent;
+        for (const part of splitFormulas(line.text, formulas)) {
+          if (typeof part !== 'string' && original) {
+            // The formula's box, scaled, placed at the cursor with its offset from the baseline
+            const scale = formulaScale(part, fontSize);
+            const size = textFrame(part.bbox, rotation);
+            const [ax, ay] = frame.toPage(cursor, lineY + part.baselineOffset * scale);
+            const [bx, by] = frame.toPage(cursor + size.width * scale, lineY + (part.baselineOffset + size.height) * scale);
+            const target = pageBBoxToUser(geometry, { x: Math.min(ax, bx), y: Math.min(ay, by), width: Math.abs(bx - ax), height: Math.abs(by - ay) });
+            drawFormula(pdfDoc, page, original, pageBBoxToUser(geometry, part.bbox), target, scale, part.text);
+            cursor += size.width * scale;
+            continue;
+          }
+          const segment = typeof part === 'string' ? part : part.text;
+          const [x, y] = pageToUser(geometry, ...frame.toPage(cursor, lineY));
+          page.drawText(segment, { ...textOptions, x, y, rotate: degrees(rotation + geometry.rotation) });
+          cursor += typeof part === 'string' ? textWidth(regionFont, segment, fontSize) : textFrame(part.bbox, rotation).width * formulaScale(part, fontSize);
+        }
       }
     }
 
@@ -169,7 +277,7 @@ export async function writePdf(
 
         // Check if annotation overlaps any translated region
         for (const region of regions) {
-          const rb = region.pdfBBox;
+          const rb = pageBBoxToUser(geometry, region.pdfBBox);
           const overlaps =
             annotBox.x < rb.x + rb.width &&
             annotBox.x + annotBox.width > rb.x &&
@@ -192,19 +300,131 @@ export async function writePdf(
   fs.writeFileSync(outputPath, modifiedBytes);
 }
 
+/** A page's content before anything is drawn on it, from which formulas are copied */
+interface OriginalPage {
+  operations: ContentOperation[];
+  resources: PDFDict | undefined;
+  /** The page has vertical fonts, whose text can't be placed without their metrics */
+  vertical: boolean;
+}
+
+/**
+ * Read the page's content streams as they are now, decoded and joined.
+ */
+function readOriginalPage(page: PDFPage): OriginalPage {
+  const { Contents, Resources } = page.node.normalizedEntries();
+  const parts: Buffer[] = [];
+  for (let i = 0; Contents && i < Contents.size(); i++) {
+    const stream = Contents.lookup(i, PDFStream);
+    const bytes = stream instanceof PDFRawStream
+      ? decodePDFRawStream(stream).decode()
+      : stream instanceof PDFContentStream ? stream.getUnencodedContents() : new Uint8Array();
+    parts.push(Buffer.from(bytes), Buffer.from('\n'));
+  }
+  const fonts = Resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  const vertical = (fonts?.values() ?? []).some((font) => {
+    const encoding = page.doc.context.lookupMaybe(font, PDFDict)?.get(PDFName.of('Encoding'));
+    return encoding instanceof PDFName && encoding.decodeText().endsWith('-V');
+  });
+  return { operations: parseContentStream(Buffer.concat(parts)), resources: Resources, vertical };
+}
+
+/**
+ * Copy a formula from the original page: the content that may paint inside
+ * the formula's box, as a form XObject clipped to that box, scaled so the box
+ * lands on `target` (both in user space).
+ */
+function drawFormula(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  original: OriginalPage,
+  source: BBox,
+  target: BBox,
+  scale: number,
+  text: string
+): void {
+  const content = contentInArea(original.operations, source, original.vertical);
+  const form = pdfDoc.context.flateStream(content, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    FormType: 1,
+    BBox: [source.x, source.y, source.x + source.width, source.y + source.height],
+    Resources: original.resources,
+  });
+  const name = page.node.newXObject('Formula', pdfDoc.context.register(form));
+  // ActualText replaces the text of everything drawn in the span, so text
+  // extraction sees the formula rather than the text copied around it
+  const properties: any = pdfDoc.context.obj({ ActualText: PDFHexString.fromText(text) });
+  page.pushOperators(
+    PDFOperator.of(PDFOperatorNames.BeginMarkedContentSequence, [PDFName.of('Span'), properties]),
+    pushGraphicsState(),
+    concatTransformationMatrix(scale, 0, 0, scale, target.x - source.x * scale, target.y - source.y * scale),
+    drawObject(name),
+    popGraphicsState(),
+    endMarkedContent()
+  );
+}
+
+/**
+ * Width of text in a font, estimated when a character can't be measured (missing glyph).
+ */
+function textWidth(font: any, text: string, fontSize: number): number {
+  try {
+    return font.widthOfTextAtSize(text, fontSize);
+  } catch {
+    return text.length * fontSize * 0.5;
+  }
+}
+
+/**
+ * Lay out a translation paragraph by paragraph (one per line of `text`),
+ * with the indents, list markers and spacing of the source's paragraphs.
+ * Paragraphs without a layout start flush left.
+ */
+function layoutParagraphs(
+  text: string,
+  paragraphs: ParagraphLayout[],
+  measure: (line: string) => number,
+  maxWidth: number,
+  fontSize: number
+): LayoutLine[] {
+  const maxIndent = maxWidth * MAX_INDENT_RATIO;
+  const lines: LayoutLine[] = [];
+  text.split('\n').forEach((paragraph, k) => {
+    const layout = paragraphs[k] || { firstIndent: 0, indent: 0, spaceBefore: 0 };
+    const markerIndent = Math.min(layout.firstIndent, maxIndent);
+    const indent = Math.min(layout.indent, maxIndent);
+    // A list item's text starts clear of its marker, however wide the marker is in the output font
+    const first = layout.marker ? Math.min(Math.max(indent, markerIndent + measure(`${layout.marker} `)), maxIndent) : markerIndent;
+    wrapText(paragraph, measure, maxWidth - indent, maxWidth - first).forEach((line, i) => {
+      lines.push({
+        text: line,
+        indent: i === 0 ? first : indent,
+        marker: i === 0 ? layout.marker : undefined,
+        markerIndent,
+        spaceBefore: i === 0 && k > 0 ? layout.spaceBefore * fontSize : 0,
+      });
+    });
+  });
+  return lines;
+}
+
 /**
  * Wrap text to fit within a given width, character by character (for CJK).
+ *
+ * @param firstWidth - Width of the first line, if it differs (an indented first line)
  */
 function wrapText(
   text: string,
-  font: any,
-  fontSize: number,
-  maxWidth: number
+  measure: (line: string) => number,
+  maxWidth: number,
+  firstWidth = maxWidth
 ): string[] {
   const lines: string[] = [];
   let currentLine = '';
 
-  for (const char of text) {
+  // Placeholders are wrapped as a whole
+  for (const char of textUnits(text)) {
     if (char === '\n') {
       lines.push(currentLine);
       currentLine = '';
@@ -212,15 +432,9 @@ function wrapText(
     }
 
     const testLine = currentLine + char;
-    let testWidth: number;
-    try {
-      testWidth = font.widthOfTextAtSize(testLine, fontSize);
-    } catch {
-      // If character can't be measured (missing glyph), use estimate
-      testWidth = testLine.length * fontSize * 0.5;
-    }
+    const testWidth = measure(testLine);
 
-    if (testWidth > maxWidth && currentLine.length > 0) {
+    if (testWidth > (lines.length === 0 ? firstWidth : maxWidth) && currentLine.length > 0) {
       lines.push(currentLine);
       currentLine = char;
     } else {
@@ -0,0 +1,44 @@
+/**
+ * Worker thread entry for the pipeline pool: renders pages and runs layout
+ * and OCR inference off the main thread. See worker-pool.ts for the message protocol.
+ */
+import { parentPort } from 'node:worker_threads';
+import { renderPdfPage } from './page-renderer';
+import { loadModel, detectLayout } from './layout-detector';
+import { loadOcrModels, recognizeText, OCR_RENDER_SIZE } from './ocr';
+import type { WorkerTask, WorkerReply } from './worker-pool';
+
+async function handleTask(task: WorkerTask): Promise<unknown> {
+  const payload = task.payload as any;
+  switch (task.type) {
+    case 'render':
+      return renderPdfPage(payload.inputPath, payload.pageNum);
+    case 'load-model':
+      await loadModel(payload.modelPath);
+      return null;
+    case 'detect': {
+      await loadModel(payload.spec.file);
+      const bytes = payload.rgbBuffer as Uint8Array;
+      const rgbBuffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      return detectLayout(rgbBuffer, payload.width, payload.height, payload.spec, payload.thresholds);
+    }
+    case 'ocr': {
+      await loadOcrModels(payload.models);
+      const rendered = await renderPdfPage(payload.inputPath, payload.pageNum, OCR_RENDER_SIZE);
+      const lines = await recognizeText(rendered.rgbBuffer, rendered.width, rendered.height);
+      return { lines, scale: rendered.scale };
+    }
+    default:
+      throw new Error(`Unknown worker task "${task.type}"`);
+  }
+}
+
+parentPort?.on('message', async (task: WorkerTask) => {
+  let reply: WorkerReply;
+  try {
+    reply = { id: task.id, result: await handleTask(task) };
+  } catch (err: any) {
+    reply = { id: task.id, error: err?.message || String(err) };
+  }
+  parentPort?.postMessage(reply);
+});
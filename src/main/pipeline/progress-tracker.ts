@@ -0,0 +1,75 @@
+/**
+ * Collects per-stage timings, region counts and page throughput for progress
+ * events and the final timing breakdown.
+ */
+import { PipelineStage, StageTimings } from './types';
+
+export function emptyStageTimings(): StageTimings {
+  return { render: 0, layout: 0, extract: 0, ocr: 0, match: 0, translate: 0, write: 0 };
+}
+
+export class ProgressTracker {
+  private totalPages = 0;
+  private startedAt = Date.now();
+  /** When page processing began, after model and document loading */
+  private pagesStartedAt = Date.now();
+  private stageMs = emptyStageTimings();
+  /** Pages translated in this run; restored pages don't count towards throughput */
+  private pagesProcessed = 0;
+  private pagesRestored = 0;
+  private regionsDone = 0;
+  private regionsTotal = 0;
+
+  startPages(totalPages: number): void {
+    this.totalPages = totalPages;
+    this.pagesStartedAt = Date.now();
+  }
+
+  /** Run fn and add its duration to the stage */
+  async time<T>(stage: PipelineStage, fn: () => T | Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await fn();
+    } finally {
+      this.stageMs[stage] += Date.now() - start;
+    }
+  }
+
+  addRegions(found: number): void {
+    this.regionsTotal += found;
+  }
+
+  addRegionsDone(done: number): void {
+    this.regionsDone += done;
+  }
+
+  pageFinished(restored = false): void {
+    if (restored) {
+      this.pagesRestored++;
+    } else {
+      this.pagesProcessed++;
+    }
+  }
+
+  elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  timings(): StageTimings {
+    return { ...this.stageMs };
+  }
+
+  snapshot() {
+    const elapsedMs = this.elapsedMs();
+    const remaining = this.totalPages - this.pagesProcessed - this.pagesRestored;
+    const msPerPage = this.pagesProcessed > 0 ? (Date.now() - this.pagesStartedAt) / this.pagesProcessed : 0;
+    return {
+      regionsDone: this.regionsDone,
+      regionsTotal: this.regionsTotal,
+      elapsedMs,
+      etaMs: this.pagesProcessed > 0 ? Math.round(remaining * msPerPage) : undefined,
+      pagesPerMinute: msPerPage > 0 ? 60000 / msPerPage : undefined,
+      stageMs: this.timings(),
+    };
+  }
+}
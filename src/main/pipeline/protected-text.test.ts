@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { droppedPlaceholders, maskProtected, protectionRules, unmaskProtected } from './protected-text';
+
+const builtins = protectionRules([], true);
+
+/** Mask with the built-in rules, numbering placeholders from `first` */
+function mask(text: string, first = 0) {
+  return maskProtected(text, builtins, first);
+}
+
+describe('protectionRules', () => {
+  it('puts the user patterns before the built-in rules', () => {
+    const rules = protectionRules(['ACME\\s+\\w+', '  '], true);
+    expect(rules[0].source).toBe('ACME\\s+\\w+');
+    expect(rules).toHaveLength(builtins.length + 1);
+  });
+
+  it('can leave the built-in rules out', () => {
+    expect(protectionRules(['ACME'], false)).toHaveLength(1);
+  });
+
+  it('names a pattern that does not compile', () => {
+    expect(() => protectionRules(['(unclosed'], true)).toThrow(/Invalid do-not-translate pattern "\(unclosed"/);
+  });
+});
+
+describe('maskProtected', () => {
+  it.each([
+    ['URL', 'See https://example.com/path?q=1 for details.', 'https://example.com/path?q=1'],
+    ['DOI', 'Published as doi: 10.1000/xyz123.', 'doi: 10.1000/xyz123'],
+    ['e-mail address', 'Write to jane.doe@example.org today.', 'jane.doe@example.org'],
+    ['citation', 'as shown before [3, 5].', '[3, 5]'],
+    ['call', 'Then call os.path.join() on it.', 'os.path.join()'],
+    ['snake_case name', 'Set max_retries to three.', 'max_retries'],
+    ['camelCase name', 'The parseConfig step runs first.', 'parseConfig'],
+  ])('masks a %s', (_name, text, token) => {
+    const masked = mask(text);
+    expect(masked.tokens).toEqual([token]);
+    expect(masked.text).toBe(text.replace(token, '{v0}'));
+  });
+
+  it('numbers placeholders after the formulas and leaves theirs alone', () => {
+    const masked = mask('With {v0} from https://example.com see [2].', 1);
+    expect(masked.text).toBe('With {v0} from {v1} see {v2}.');
+    expect(masked.tokens).toEqual(['https://example.com', '[2]']);
+  });
+
+  it('leaves plain text as it is', () => {
+    expect(mask('Nothing to protect here.')).toEqual({ text: 'Nothing to protect here.', tokens: [] });
+  });
+
+  it('applies user patterns', () => {
+    const rules = protectionRules(['Widget ?Pro'], false);
+    expect(maskProtected('Try Widget Pro now.', rules, 0).text).toBe('Try {v0} now.');
+  });
+});
+
+describe('masking round trip', () => {
+  it('puts the protected text back into the translation', () => {
+    const source = 'Call parseConfig() as described in [4], see https://example.com.';
+    const masked = mask(source, 2);
+    const translation = '按照 {v3} 中的说明调用 {v2}，参见 {v4}。';
+    expect(unmaskProtected(translation, masked.tokens, 2)).toBe('按照 [4] 中的说明调用 parseConfig()，参见 https://example.com。');
+  });
+
+  it('leaves formula placeholders for the formulas', () => {
+    expect(unmaskProtected('{v0} 和 {v1}', ['ACME'], 1)).toBe('{v0} 和 ACME');
+  });
+
+  it('reports what the translation dropped', () => {
+    const source = 'With {v0} the tool max_retries applies [7].';
+    const masked = mask(source, 1);
+    const dropped = droppedPlaceholders(masked.text, '使用 {v1}。', masked.tokens, 1, (n) => `formula ${n}`);
+    expect(dropped).toEqual(['formula 0', '[7]']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Do-not-translate rules. Text that must come through translation unchanged
+ * (URLs, DOIs, e-mail addresses, citation markers, code identifiers, product
+ * names, and whatever the user's patterns match) is masked with placeholders
+ * in the same {v0} form as inline formulas, and put back afterwards.
+ */
+import { placeholder, placeholderNumbers, replacePlaceholders } from './formula';
+
+/** Built-in detectors, in order of precedence where their matches overlap */
+const BUILTIN_RULES: RegExp[] = [
+  // URLs, up to trailing punctuation
+  /\b(?:https?:\/\/|ftp:\/\/|www\.)[^\s<>"{}]*[^\s<>"{}.,;:!?'()[\]]/giu,
+  // DOIs
+  /\b(?:doi:\s*)?10\.\d{4,9}\/[^\s<>"{}]*[^\s<>"{}.,;:!?'()[\]]/giu,
+  // E-mail addresses
+  /[\p{L}\d._%+-]+@[\p{L}\d-]+(?:\.[\p{L}\d-]+)+/gu,
+  // Numeric citations: [12], [3, 5], [7-9]
+  /\[\d+(?:\s*[,;–-]\s*\d+)*\]/gu,
+  // Calls and qualified names: parse(), os.path.join(), std::vector
+  /\b[A-Za-z_]\w*(?:(?:\.|::)[A-Za-z_]\w*)*\(\)|\b[A-Za-z_]\w*(?:::[A-Za-z_]\w*)+/gu,
+  // snake_case identifiers
+  /\b[A-Za-z]\w*_\w+\b/gu,
+  // Capitals inside a word: camelCase identifiers and names like GitHub, iOS, LaTeX
+  /\b[A-Za-z\d]*[a-z][A-Z][A-Za-z\d]*\b/gu,
+];
+
+/** Placeholders already in the text (formulas), which masking leaves alone */
+const EXISTING_PLACEHOLDER = /\{v\d+\}/g;
+
+/**
+ * Compile the do-not-translate rules: the user's patterns (one regular
+ * expression each) first, then the built-in detectors.
+ *
+ * @throws Error naming the first pattern that is not a valid regular expression
+ */
+export function protectionRules(patterns: string[], builtins: boolean): RegExp[] {
+  const rules = patterns
+    .filter((pattern) => pattern.trim() !== '')
+    .map((pattern) => {
+      try {
+        return new RegExp(pattern, 'gu');
+      } catch (err: any) {
+        throw new Error(`Invalid do-not-translate pattern "${pattern}": ${err.message}`);
+      }
+    });
+  return builtins ? [...rules, ...BUILTIN_RULES] : rules;
+}
+
+/**
+ * Replace the matches of the rules by placeholders numbered from `first`
+ * (after the numbers the text's formulas use).
+ *
+ * @returns The masked text, and the text of each placeholder in order
+ */
+export function maskProtected(text: string, rules: RegExp[], first: number): { text: string; tokens: string[] } {
+  const taken: [number, number][] = Array.from(text.matchAll(EXISTING_PLACEHOLDER), (m) => [m.index, m.index + m[0].length]);
+  const found: [number, number][] = [];
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule)) {
+      const span: [number, number] = [match.index, match.index + match[0].length];
+      if (span[0] === span[1] || taken.some(([start, end]) => span[0] < end && span[1] > start)) continue;
+      taken.push(span);
+      found.push(span);
+    }
+  }
+  if (found.length === 0) return { text, tokens: [] };
+
+  found.sort((a, b) => a[0] - b[0]);
+  const tokens: string[] = [];
+  let masked = '';
+  let last = 0;
+  for (const [start, end] of found) {
+    masked += text.slice(last, start) + placeholder(first + tokens.length);
+    tokens.push(text.slice(start, end));
+    last = end;
+  }
+  return { text: masked + text.slice(last), tokens };
+}
+
+/** Put the masked text back in place of its placeholders, leaving the formulas' placeholders */
+export function unmaskProtected(text: string, tokens: string[], first: number): string {
+  return replacePlaceholders(text, (n) => tokens[n - first]);
+}
+
+/**
+ * Placeholders of the source the translation lost, as the text they stand for:
+ * masked text as it is, formulas through `describeFormula`.
+ */
+export function droppedPlaceholders(
+  source: string,
+  translation: string,
+  tokens: string[],
+  first: number,
+  describeFormula: (n: number) => string
+): string[] {
+  const kept = new Set(placeholderNumbers(translation));
+  return [...new Set(placeholderNumbers(source))]
+    .filter((n) => !kept.has(n))
+    .map((n) => (n >= first ? tokens[n - first] : describeFormula(n)));
+}
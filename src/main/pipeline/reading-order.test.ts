@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chainParagraphs,
+  continuesInto,
+  distributeParagraphs,
+  groupContinuations,
+  joinRegionTexts,
+  orderRegions,
+  splitTranslation,
+} from './reading-order';
+import { BBox, LayoutClass, TranslatableRegion } from './types';
+
+/** A region at a box in page coordinates (bottom-left origin) */
+function region(text: string, pdfBBox: BBox, className: LayoutClass = 'plain_text', fontSize = 10): TranslatableRegion {
+  return {
+    layoutBox: { bbox: pdfBBox, classId: 1, className, confidence: 0.9 },
+    textBlocks: [{ text, ...pdfBBox, fontSize, fontName: 'Times' }],
+    fullText: text,
+    pdfBBox,
+  };
+}
+
+const texts = (regions: TranslatableRegion[]) => regions.map((r) => r.fullText);
+
+describe('orderRegions', () => {
+  it('reads two columns one after the other', () => {
+    const leftTop = region('left top', { x: 50, y: 600, width: 200, height: 100 });
+    const leftBottom = region('left bottom', { x: 50, y: 400, width: 200, height: 100 });
+    const rightTop = region('right top', { x: 300, y: 600, width: 200, height: 100 });
+    const rightBottom = region('right bottom', { x: 300, y: 400, width: 200, height: 100 });
+    expect(texts(orderRegions([rightBottom, leftBottom, rightTop, leftTop])))
+      .toEqual(['left top', 'left bottom', 'right top', 'right bottom']);
+  });
+
+  it('reads a full-width title before the columns below it', () => {
+    const title = region('title', { x: 50, y: 750, width: 450, height: 30 }, 'title');
+    const left = region('left', { x: 50, y: 400, width: 200, height: 300 });
+    const right = region('right', { x: 300, y: 400, width: 200, height: 300 });
+    expect(texts(orderRegions([right, left, title]))).toEqual(['title', 'left', 'right']);
+  });
+
+  it('reads columns above a full-width figure before those below it', () => {
+    const upperLeft = region('upper left', { x: 50, y: 600, width: 200, height: 150 });
+    const upperRight = region('upper right', { x: 300, y: 600, width: 200, height: 150 });
+    const figure = region('figure', { x: 50, y: 400, width: 450, height: 150 }, 'figure');
+    const lowerLeft = region('lower left', { x: 50, y: 200, width: 200, height: 150 });
+    const lowerRight = region('lower right', { x: 300, y: 200, width: 200, height: 150 });
+    expect(texts(orderRegions([lowerRight, figure, upperRight, lowerLeft, upperLeft])))
+      .toEqual(['upper left', 'upper right', 'figure', 'lower left', 'lower right']);
+  });
+
+  it('keeps paragraph gaps that line up across columns from interleaving them', () => {
+    const regions = [
+      region('left 1', { x: 50, y: 600, width: 200, height: 100 }),
+      region('right 1', { x: 300, y: 600, width: 200, height: 100 }),
+      region('left 2', { x: 50, y: 450, width: 200, height: 100 }),
+      region('right 2', { x: 300, y: 450, width: 200, height: 100 }),
+    ];
+    expect(texts(orderRegions(regions))).toEqual(['left 1', 'left 2', 'right 1', 'right 2']);
+  });
+
+  it('reads columns of vertical text right to left', () => {
+    const left = { ...region('left', { x: 50, y: 100, width: 30, height: 600 }), vertical: true };
+    const right = { ...region('right', { x: 300, y: 100, width: 30, height: 600 }), vertical: true };
+    expect(texts(orderRegions([left, right]))).toEqual(['right', 'left']);
+  });
+});
+
+describe('continuesInto', () => {
+  const box = { x: 50, y: 400, width: 200, height: 100 };
+
+  it('links a sentence carrying on in lower case', () => {
+    expect(continuesInto(region('the results of the', box), region('experiment show', box))).toBe(true);
+  });
+
+  it('does not link past the end of a sentence', () => {
+    expect(continuesInto(region('as shown above.', box), region('then we', box))).toBe(false);
+  });
+
+  it('does not link text of a very different size', () => {
+    expect(continuesInto(region('the results of the', box), region('experiment', box, 'plain_text', 16))).toBe(false);
+  });
+
+  it('does not link titles', () => {
+    expect(continuesInto(region('Results and', box, 'title'), region('discussion', box))).toBe(false);
+  });
+});
+
+describe('groupContinuations', () => {
+  it('chains neighbouring regions and leaves out ineligible ones', () => {
+    const box = { x: 50, y: 400, width: 200, height: 100 };
+    const regions = [region('the start of a', box), region('sentence that ends.', box), region('skipped and', box), region('more', box)];
+    expect(groupContinuations(regions, (i) => i !== 2)).toEqual([[0, 1], [3]]);
+  });
+});
+
+describe('joinRegionTexts', () => {
+  it('repairs a word hyphenated across regions', () => {
+    expect(joinRegionTexts(['the experi-', 'ment shows'])).toBe('the experiment shows');
+  });
+
+  it('keeps the hyphen of a compound split across regions', () => {
+    expect(joinRegionTexts(['a well-', 'known result'])).toBe('a well-known result');
+  });
+
+  it('joins CJK text without a space', () => {
+    expect(joinRegionTexts(['实验结', '果表明'])).toBe('实验结果表明');
+  });
+
+  it('joins other text with a space', () => {
+    expect(joinRegionTexts(['the results', 'show'])).toBe('the results show');
+  });
+});
+
+describe('chainParagraphs and distributeParagraphs', () => {
+  it('translate the paragraph running across regions as one and split it back', () => {
+    const paragraphs = chainParagraphs(['First paragraph.\nThe second one runs', 'on here.\nThird.']);
+    expect(paragraphs.map((p) => p.text)).toEqual(['First paragraph.', 'The second one runs on here.', 'Third.']);
+    expect(paragraphs[1].pieces).toEqual([{ region: 0, length: 19 }, { region: 1, length: 8 }]);
+
+    const translated = distributeParagraphs(paragraphs, ['Erster Absatz.', 'Der zweite läuft hier weiter.', 'Dritter.'], 2);
+    expect(translated).toHaveLength(2);
+    expect(translated[0].split('\n')).toHaveLength(2);
+    expect(translated[1].split('\n')).toHaveLength(2);
+    expect(`${translated[0].split('\n')[1]} ${translated[1].split('\n')[0]}`).toBe('Der zweite läuft hier weiter.');
+  });
+});
+
+describe('splitTranslation', () => {
+  it('returns the text whole for one part', () => {
+    expect(splitTranslation('one two three', [5])).toEqual(['one two three']);
+  });
+
+  it('splits in proportion to the weights at word boundaries', () => {
+    const parts = splitTranslation('aaaa bbbb cccc dddd', [1, 1]);
+    expect(parts).toEqual(['aaaa bbbb', 'cccc dddd']);
+  });
+
+  it('splits CJK text between any two characters', () => {
+    expect(splitTranslation('一二三四五六', [1, 2])).toEqual(['一二', '三四五六']);
+  });
+
+  it('never cuts a formula placeholder', () => {
+    const parts = splitTranslation('{v12}{v13}{v14}{v15}', [1, 1]);
+    expect(parts.join('')).toBe('{v12}{v13}{v14}{v15}');
+    for (const part of parts) expect(part).toMatch(/^(\{v\d+\})+$/);
+  });
+
+  it('leaves something for every part', () => {
+    const parts = splitTranslation('short', [1, 1, 1]);
+    expect(parts).toHaveLength(3);
+    for (const part of parts) expect(part).not.toBe('');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Reading order and paragraph continuity across regions.
+ *
+ * Regions come out of layout detection in model order. orderRegions sorts
+ * them column by column (a recursive XY cut); groupContinuations then finds
+ * paragraphs that run on into the next region (next column, past a figure,
+ * or onto the next page) so they can be translated as one unit and the
+ * translation split back over the original boxes.
+ */
+import { LayoutBox, TranslatableRegion } from './types';
+import { textUnits } from './formula';
+import { joinHyphenated } from './text-extractor';
+
+/** Boxes may overlap by this much (points) and still count as separated */
+const OVERLAP_TOLERANCE = 2;
+/** Continuing text has nearly the same font size */
+const CONTINUATION_FONT_RATIO = 1.15;
+/** How far (as a share of the text length) a split may move to reach a word boundary */
+const SPLIT_SEARCH_RATIO = 0.1;
+
+/** Text ending like this finishes its paragraph (trailing quotes and brackets ignored) */
+const PARAGRAPH_END = /[.!?…:。！？：][\s"'”’)\]）」』]*$/;
+const WIDE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const WIDE_START = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const WIDE_END = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]$/u;
+/** Places a translation may be split without breaking a word */
+const BREAK_AFTER = /[\s，。、；！？,;]/;
+
+interface Extent {
+  /** One region, or the cells of one table in the order they were found */
+  regions: TranslatableRegion[];
+  left: number;
+  right: number;
+  /** Top-down coordinates, so smaller is higher on the page */
+  top: number;
+  bottom: number;
+}
+
+/** With `mirrored`, x runs right to left, for pages of vertical text whose columns are read that way */
+function toExtent(regions: TranslatableRegion[], mirrored: boolean): Extent {
+  const x = Math.min(...regions.map((r) => r.pdfBBox.x));
+  const y = Math.min(...regions.map((r) => r.pdfBBox.y));
+  const width = Math.max(...regions.map((r) => r.pdfBBox.x + r.pdfBBox.width)) - x;
+  const height = Math.max(...regions.map((r) => r.pdfBBox.y + r.pdfBBox.height)) - y;
+  const [left, right] = mirrored ? [-(x + width), -x] : [x, x + width];
+  return { regions, left, right, top: -(y + height), bottom: -y };
+}
+
+/**
+ * Split boxes at gaps along one axis; returns one group when there is no gap.
+ */
+function splitAxis(items: Extent[], axis: 'x' | 'y'): Extent[][] {
+  const start = (e: Extent) => (axis === 'x' ? e.left : e.top) + OVERLAP_TOLERANCE;
+  const end = (e: Extent) => (axis === 'x' ? e.right : e.bottom) - OVERLAP_TOLERANCE;
+  const sorted = [...items].sort((a, b) => start(a) - start(b));
+
+  const groups: Extent[][] = [];
+  let current: Extent[] = [];
+  let reach = -Infinity;
+  for (const item of sorted) {
+    if (current.length > 0 && start(item) >= reach) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(item);
+    reach = Math.max(reach, end(item));
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+function orderExtents(items: Extent[]): Extent[] {
+  if (items.length <= 1) return items;
+
+  // Columns first, left to right
+  const columns = splitAxis(items, 'x');
+  if (columns.length > 1) return columns.flatMap(orderExtents);
+
+  // Something spans the columns (a title, a wide figure): cut into horizontal bands
+  const bands = splitAxis(items, 'y');
+  if (bands.length <= 1) {
+    return [...items].sort((a, b) => (a.top - b.top) || (a.left - b.left));
+  }
+
+  // Neighbouring multi-column bands belong to one section; paragraph gaps that
+  // happen to line up across columns must not interleave the columns
+  const sections: Extent[][] = [];
+  let previousHasColumns = false;
+  for (const band of bands) {
+    const hasColumns = splitAxis(band, 'x').length > 1;
+    if (hasColumns && previousHasColumns) {
+      sections[sections.length - 1].push(...band);
+    } else {
+      sections.push([...band]);
+    }
+    previousHasColumns = hasColumns;
+  }
+  // Sections whose column gutters don't line up are read band by band
+  return (sections.length > 1 ? sections : bands).flatMap(orderExtents);
+}
+
+/**
+ * Sort a page's regions into reading order: column by column, top to bottom,
+ * with full-width elements read where they interrupt the columns. Columns go
+ * left to right, or right to left when most regions are vertical text.
+ * Regions cut from one layout box (table cells) stay together, in order.
+ */
+export function orderRegions(regions: TranslatableRegion[]): TranslatableRegion[] {
+  const mirrored = regions.filter((r) => r.vertical).length * 2 > regions.length;
+  const units = new Map<LayoutBox, TranslatableRegion[]>();
+  for (const region of regions) {
+    units.set(region.layoutBox, [...(units.get(region.layoutBox) || []), region]);
+  }
+  return orderExtents([...units.values()].map((unit) => toExtent(unit, mirrored))).flatMap((e) => e.regions);
+}
+
+function typicalFontSize(region: TranslatableRegion): number {
+  const sizes = region.textBlocks.map((b) => b.fontSize).filter((s) => s > 0).sort((a, b) => a - b);
+  return sizes.length > 0 ? sizes[Math.floor(sizes.length / 2)] : 0;
+}
+
+/**
+ * Whether region `a`'s paragraph runs on into region `b`, the next one in reading order.
+ */
+export function continuesInto(a: TranslatableRegion, b: TranslatableRegion): boolean {
+  if (a.layoutBox.className !== 'plain_text' || b.layoutBox.className !== 'plain_text') return false;
+  if ((a.sourceLanguage || '') !== (b.sourceLanguage || '')) return false;
+
+  const end = a.fullText.trimEnd();
+  const start = b.fullText.trimStart();
+  if (!end || !start || PARAGRAPH_END.test(end)) return false;
+
+  const sizeA = typicalFontSize(a);
+  const sizeB = typicalFontSize(b);
+  if (sizeA > 0 && sizeB > 0 && Math.max(sizeA, sizeB) / Math.min(sizeA, sizeB) > CONTINUATION_FONT_RATIO) {
+    return false;
+  }
+
+  // A sentence carrying on in lower case, a hyphenated or comma-ended line, or unpunctuated CJK text
+  return /^\p{Ll}/u.test(start) || /[-,，、]$/.test(end) || (WIDE_END.test(end) && WIDE_START.test(start));
+}
+
+/**
+ * Group consecutive regions into paragraphs. Returns chains of indices in
+ * order; regions that are not eligible (e.g. skipped) are never linked.
+ */
+export function groupContinuations(regions: TranslatableRegion[], eligible: (index: number) => boolean): number[][] {
+  const chains: number[][] = [];
+  regions.forEach((region, i) => {
+    if (!eligible(i)) return;
+    const last = chains[chains.length - 1];
+    const previous = last?.[last.length - 1];
+    if (previous === i - 1 && continuesInto(regions[previous], region)) {
+      last.push(i);
+    } else {
+      chains.push([i]);
+    }
+  });
+  return chains;
+}
+
+/**
+ * Join the source texts of a paragraph split over several regions,
+ * undoing end-of-region hyphenation.
+ */
+export function joinRegionTexts(texts: string[]): string {
+  return texts.reduce((joined, text) => {
+    const next = text.trim();
+    if (!joined) return next;
+    const hyphenated = joinHyphenated(joined, next);
+    if (hyphenated !== null) return hyphenated;
+    if (WIDE_END.test(joined) && WIDE_START.test(next)) return joined + next;
+    return `${joined} ${next}`;
+  }, '');
+}
+
+/** A paragraph (or list item) of a chain of regions, translated on its own */
+export interface ChainParagraph {
+  text: string;
+  /** The regions (by position in the chain) its source text came from, with how much of it each held */
+  pieces: { region: number; length: number }[];
+}
+
+/**
+ * Split the source texts of a chain of regions, one paragraph per line, into
+ * the paragraphs to translate. The paragraph running on from one region into
+ * the next is joined into one.
+ */
+export function chainParagraphs(texts: string[]): ChainParagraph[] {
+  const paragraphs: ChainParagraph[] = [];
+  texts.forEach((text, region) => {
+    text.trim().split('\n').forEach((line, k) => {
+      const piece = { region, length: textUnits(line.trim()).length };
+      const previous = paragraphs[paragraphs.length - 1];
+      if (k === 0 && previous) {
+        previous.text = joinRegionTexts([previous.text, line]);
+        previous.pieces.push(piece);
+      } else {
+        paragraphs.push({ text: line.trim(), pieces: [piece] });
+      }
+    });
+  });
+  return paragraphs;
+}
+
+/**
+ * Put the translations of a chain's paragraphs back into its regions: a
+ * paragraph spanning regions is split in proportion to its source text in
+ * each, and each region's paragraphs are joined by '\n' again.
+ */
+export function distributeParagraphs(paragraphs: ChainParagraph[], translations: string[], regionCount: number): string[] {
+  const regions: string[][] = Array.from({ length: regionCount }, () => []);
+  paragraphs.forEach((paragraph, k) => {
+    // A paragraph is one line, whatever line breaks the translator added
+    const text = translations[k].replace(/\s*\n\s*/g, ' ');
+    const parts = splitTranslation(text, paragraph.pieces.map((piece) => piece.length));
+    paragraph.pieces.forEach((piece, p) => regions[piece.region].push(parts[p]));
+  });
+  return regions.map((parts) => parts.join('\n'));
+}
+
+/**
+ * Split a translated paragraph into parts proportional to the given weights
+ * (how much of the source each part stands for), preferring word boundaries.
+ */
+export function splitTranslation(text: string, weights: number[]): string[] {
+  if (weights.length <= 1) return [text];
+  // Formula placeholders are never cut
+  const chars = textUnits(text.trim());
+  const total = chars.length;
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(w, 0), 0) || weights.length;
+  const window = Math.max(3, Math.round(total * SPLIT_SEARCH_RATIO));
+  // Wide scripts can break between any two characters
+  const anywhere = WIDE.test(text);
+
+  const cuts: number[] = [];
+  let cumulative = 0;
+  let previousCut = 0;
+  for (let k = 0; k < weights.length - 1; k++) {
+    cumulative += Math.max(weights[k], 0) || totalWeight / weights.length;
+    // Leave at least one character for each remaining part
+    const min = previousCut + 1;
+    const max = total - (weights.length - 1 - k);
+    const target = Math.min(max, Math.max(min, Math.round((total * cumulative) / totalWeight)));
+
+    let cut = target;
+    let bestDistance = Infinity;
+    for (let p = Math.max(min, target - window); p <= Math.min(max, target + window); p++) {
+      if (BREAK_AFTER.test(chars[p - 1]) && Math.abs(p - target) < bestDistance) {
+        cut = p;
+        bestDistance = Math.abs(p - target);
+      }
+    }
+    if (bestDistance === Infinity && !anywhere) {
+      // No word boundary nearby: take the closest one at any distance
+      for (let d = window + 1; d < total; d++) {
+        if (target - d >= min && BREAK_AFTER.test(chars[target - d - 1])) { cut = target - d; break; }
+        if (target + d <= max && BREAK_AFTER.test(chars[target + d - 1])) { cut = target + d; break; }
+      }
+    }
+    cuts.push(cut);
+    previousCut = cut;
+  }
+
+  const bounds = [0, ...cuts, total];
+  return weights.map((_, k) => chars.slice(bounds[k], bounds[k + 1]).join('').trim());
+}
@@ -1,12 +1,27 @@
 /**
  * Match text blocks to layout detection boxes.
- * Handles coordinate transformation between PDF space and image space.
+ * Handles coordinate transformation between page coordinates and image space.
  */
-import { LayoutBox, TextBlock, TranslatableRegion, BBox, TRANSLATABLE_CLASSES } from './types';
+import { LayoutBox, TextBlock, TextStyle, TranslatableRegion, DroppedRegion, BBox, TRANSLATABLE_CLASSES } from './types';
+import { assembleText, assembleTextWithFormulas, dominantRotation } from './text-extractor';
+import { isNumericCell, splitTableCells } from './table';
+
+export interface MatchOptions {
+  /** Split table boxes into cells and make a region of each cell with text to translate */
+  translateTables?: boolean;
+  /** The page's ruling lines (see extractRulings), to find table cells by */
+  rulings?: BBox[];
+}
+
+export interface MatchResult {
+  regions: TranslatableRegion[];
+  /** Layout boxes that were skipped, with the reason (for debugging output) */
+  dropped: DroppedRegion[];
+}
 
 /**
- * Convert a PDF coordinate bounding box to image pixel coordinates.
- * PDF: origin bottom-left, units = points.
+ * Convert a page coordinate bounding box to image pixel coordinates.
+ * Page: origin bottom-left, units = points, as displayed (see page-geometry).
  * Image: origin top-left, units = pixels.
  */
 function pdfToImageCoords(
@@ -25,9 +40,20 @@ function pdfToImageCoords(
   };
 }
 
+/**
+ * Convert an image pixel bounding box back to page coordinates.
+ */
+function imageToPdfCoords(box: BBox, pageHeight: number, scale: number): BBox {
+  return {
+    x: box.x / scale,
+    y: pageHeight - (box.y + box.height) / scale,
+    width: box.width / scale,
+    height: box.height / scale,
+  };
+}
 
 /**
- * Compute a tight bounding box in PDF coordinate space from matched text blocks.
+ * Compute a tight bounding box in page coordinates from matched text blocks.
  * Adds a small margin (2pt) to ensure full coverage of original text.
  */
 function computeTextBBox(blocks: TextBlock[]): BBox {
@@ -52,6 +78,53 @@ function computeTextBBox(blocks: TextBlock[]): BBox {
   };
 }
 
+/**
+ * The style most of a region's text is set in, weighted by character count,
+ * so a bold lead-in or a coloured link doesn't restyle the whole paragraph.
+ */
+function dominantStyle(blocks: TextBlock[]): TextStyle {
+  let total = 0;
+  let bold = 0;
+  let italic = 0;
+  const colors = new Map<string, { color: [number, number, number]; weight: number }>();
+  for (const block of blocks) {
+    const weight = block.text.trim().length;
+    total += weight;
+    if (block.bold) bold += weight;
+    if (block.italic) italic += weight;
+    if (block.color) {
+      const key = block.color.map((c) => Math.round(c * 255)).join(',');
+      const entry = colors.get(key) || { color: block.color, weight: 0 };
+      entry.weight += weight;
+      colors.set(key, entry);
+    }
+  }
+
+  const style: TextStyle = { bold: bold * 2 > total, italic: italic * 2 > total };
+  let best = 0;
+  for (const { color, weight } of colors.values()) {
+    if (weight > best) {
+      style.color = color;
+      best = weight;
+    }
+  }
+  return style;
+}
+
+/**
+ * Whether most of the blocks' text (by character count) is written vertically.
+ */
+function isVertical(blocks: TextBlock[]): boolean {
+  let total = 0;
+  let vertical = 0;
+  for (const block of blocks) {
+    const weight = block.text.trim().length;
+    total += weight;
+    if (block.vertical) vertical += weight;
+  }
+  return vertical * 2 > total;
+}
+
 /**
  * Check if a point is inside a bounding box.
  */
@@ -68,22 +141,40 @@ function pointInBox(px: number, py: number, box: BBox): boolean {
  * Match text blocks to layout boxes, producing translatable regions.
  *
  * @param layoutBoxes - Detected layout boxes in image coordinates
- * @param textBlocks - Text blocks in PDF coordinates
- * @param pageHeight - PDF page height in points
+ * @param textBlocks - Text blocks in page coordinates
+ * @param pageHeight - Displayed page height in points
  * @param scale - Scale factor (image pixels / PDF points)
  */
 export function matchRegions(
   layoutBoxes: LayoutBox[],
   textBlocks: TextBlock[],
   pageHeight: number,
-  scale: number
+  scale: number,
+  options: MatchOptions = {}
 ): TranslatableRegion[] {
+  return matchRegionsDetailed(layoutBoxes, textBlocks, pageHeight, scale, options).regions;
+}
+
+/**
+ * Same as matchRegions, but also reports the layout boxes that were dropped.
+ */
+export function matchRegionsDetailed(
+  layoutBoxes: LayoutBox[],
+  textBlocks: TextBlock[],
+  pageHeight: number,
+  scale: number,
+  options: MatchOptions = {}
+): MatchResult {
   const regions: TranslatableRegion[] = [];
+  const dropped: DroppedRegion[] = [];
 
-  // Only process translatable layout classes
-  const translatableBoxes = layoutBoxes.filter((lb) =>
-    TRANSLATABLE_CLASSES.has(lb.className)
-  );
+  // Only process translatable layout classes, and tables in table mode
+  const translatableBoxes = layoutBoxes.filter((lb) => {
+    if (TRANSLATABLE_CLASSES.has(lb.className)) return true;
+    if (lb.className === 'table' && options.translateTables) return true;
+    dropped.push({ layoutBox: lb, reason: 'not-translatable' });
+    return false;
+  });
 
   for (const layoutBox of translatableBoxes) {
     const matched: TextBlock[] = [];
@@ -107,33 +198,74 @@ export function matchRegions(
       }
     }
 
-    if (matched.length === 0) continue;
+    if (matched.length === 0) {
+      dropped.push({ layoutBox, reason: 'no-text' });
+      continue;
+    }
 
-    // Sort in reading order: top-to-bottom, left-to-right
-    matched.sort((a, b) => {
-      const ay = pageHeight - a.y; // convert to top-down
-      const by = pageHeight - b.y;
-      const lineDiff = Math.abs(ay - by);
-      // If on roughly the same line (within fontSize), sort left-to-right
-      if (lineDiff < (a.fontSize || 10)) {
-        return a.x - b.x;
+    // Each cell of a table is a region of its own; cells without words are left as they are
+    if (layoutBox.className === 'table') {
+      const cells = splitTableCells(imageToPdfCoords(layoutBox.bbox, pageHeight, scale), matched, options.rulings || []);
+      const cellRegions: TranslatableRegion[] = [];
+      for (const cell of cells) {
+        if (isNumericCell(assembleText(cell.blocks))) continue;
+        const region = buildRegion(layoutBox, cell.blocks, pageHeight);
+        if (!region) continue;
+        region.cellBBox = cell.bbox;
+        cellRegions.push(region);
+      }
+      if (cellRegions.length === 0) {
+        dropped.push({ layoutBox, reason: 'no-text' });
       }
-      return ay - by;
-    });
+      regions.push(...cellRegions);
+      continue;
+    }
 
-    const fullText = matched.map((b) => b.text).join(' ');
-    if (fullText.trim() === '') continue;
+    const region = buildRegion(layoutBox, matched, pageHeight);
+    if (!region) {
+      dropped.push({ layoutBox, reason: 'no-text' });
+      continue;
+    }
+    regions.push(region);
+  }
 
-    // Compute PDF bounding box directly from matched text blocks' PDF coordinates
-    const pdfBBox = computeTextBBox(matched);
+  return { regions, dropped };
+}
 
-    regions.push({
-      layoutBox,
-      textBlocks: matched,
-      fullText,
-      pdfBBox,
-    });
-  }
+/**
+ * A region of the blocks matched to a layout box, or null if they hold no text.
+ */
+function buildRegion(layoutBox: LayoutBox, matched: TextBlock[], pageHeight: number): TranslatableRegion | null {
+  // Sort in reading order: top-to-bottom, left-to-right
+  matched.sort((a, b) => {
+    const ay = pageHeight - a.y; // convert to top-down
+    const by = pageHeight - b.y;
+    const lineDiff = Math.abs(ay - by);
+    // If on roughly the same line (within fontSize), sort left-to-right
+    if (lineDiff < (a.fontSize || 10)) {
+      return a.x - b.x;
+    }
+    return ay - by;
+  });
+
+  // Inline formulas become placeholders so the translator leaves them alone
+  const { text: fullText, formulas, paragraphs } = assembleTextWithFormulas(matched);
+  if (fullText.trim() === '') return null;
 
-  return regions;
+  // Compute the bounding box directly from the matched text blocks' page coordinates
+  const pdfBBox = computeTextBBox(matched);
+
+  const region: TranslatableRegion = {
+    layoutBox,
+    textBlocks: matched,
+    fullText,
+    pdfBBox,
+    style: dominantStyle(matched),
+  };
+  const rotation = dominantRotation(matched);
+  if (rotation) region.rotation = rotation;
+  if (isVertical(matched)) region.vertical = true;
+  if (formulas.length > 0) region.formulas = formulas;
+  if (paragraphs.length > 1 || paragraphs.some((p) => p.marker)) region.paragraphs = paragraphs;
+  return region;
 }
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { isNumericCell, splitTableCells, TableCell } from './table';
+import { BBox, TextBlock } from './types';
+
+const TABLE: BBox = { x: 40, y: 640, width: 280, height: 80 };
+
+function block(text: string, x: number, y: number, width = 60): TextBlock {
+  return { text, x, y, width, height: 10, fontSize: 10, fontName: 'Helvetica' };
+}
+
+const texts = (cells: TableCell[]) => cells.map((cell) => cell.blocks.map((b) => b.text).join(' '));
+
+describe('splitTableCells', () => {
+  it('splits an unruled table at the whitespace between columns and rows', () => {
+    const blocks = [
+      block('Name', 50, 700), block('Value', 200, 700),
+      block('alpha', 50, 680), block('one', 200, 680),
+      block('beta', 50, 660), block('two', 200, 660),
+    ];
+    const cells = splitTableCells(TABLE, blocks, []);
+    expect(texts(cells)).toEqual(['Name', 'Value', 'alpha', 'one', 'beta', 'two']);
+  });
+
+  it('lets a cell reach to the next column and the row below', () => {
+    const blocks = [block('Name', 50, 700), block('Value', 200, 700), block('alpha', 50, 680), block('one', 200, 680)];
+    const [name, value] = splitTableCells(TABLE, blocks, []);
+    expect(name.bbox.x).toBe(50);
+    expect(name.bbox.x + name.bbox.width).toBeGreaterThan(110);
+    expect(name.bbox.x + name.bbox.width).toBeLessThan(value.bbox.x);
+    expect(name.bbox.y).toBeLessThan(700);
+  });
+
+  it('keeps a heading spanning the columns in one cell', () => {
+    const blocks = [
+      block('Results of the first experiment', 50, 710, 200),
+      block('a', 50, 695), block('1', 200, 695),
+      block('b', 50, 680), block('2', 200, 680),
+      block('c', 50, 665), block('3', 200, 665),
+      block('d', 50, 650), block('4', 200, 650),
+    ];
+    expect(texts(splitTableCells(TABLE, blocks, []))).toEqual([
+      'Results of the first experiment', 'a', '1', 'b', '2', 'c', '3', 'd', '4',
+    ]);
+  });
+
+  it('keeps the lines of a ruled row together', () => {
+    const rules: BBox[] = [
+      { x: 40, y: 690, width: 280, height: 0.5 },
+      { x: 40, y: 660, width: 280, height: 0.5 },
+    ];
+    const blocks = [
+      block('Name', 50, 700), block('Value', 200, 700),
+      block('first line', 50, 676), block('one', 200, 676),
+      block('second line', 50, 664),
+      block('beta', 50, 645), block('two', 200, 645),
+    ];
+    expect(texts(splitTableCells(TABLE, blocks, rules))).toEqual([
+      'Name', 'Value', 'first line second line', 'one', 'beta', 'two',
+    ]);
+  });
+
+  it('returns no cells for an empty table', () => {
+    expect(splitTableCells(TABLE, [block(' ', 50, 700)], [])).toEqual([]);
+  });
+});
+
+describe('isNumericCell', () => {
+  it.each(['42', '3.5 ms', '12 kg', '2024-01-31', '—', '± 0.3'])('leaves "%s" alone', (text) => {
+    expect(isNumericCell(text)).toBe(true);
+  });
+
+  it.each(['Total', '3 samples', 'n/a values'])('translates "%s"', (text) => {
+    expect(isNumericCell(text)).toBe(false);
+  });
+});
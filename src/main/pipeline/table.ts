@@ -0,0 +1,219 @@
+/**
+ * Table mode: split a detected table into cells, so each text cell can be
+ * translated on its own and its translation fitted back into the cell.
+ * Columns come from whitespace running down the table and from vertical
+ * rules; rows from the whitespace between lines of text, or from the
+ * horizontal rules when the table is fully ruled.
+ */
+import { BBox, TextBlock } from './types';
+import { toTextFrame } from './page-geometry';
+import { dominantRotation } from './text-extractor';
+
+/** Whitespace at least this wide (in ems) running down the table separates columns... */
+const COLUMN_GAP_EMS = 1;
+/** ...even where this share of the rows cross it (headings spanning several columns) */
+const SPANNING_ROW_RATIO = 0.2;
+/** Resolution of the search for column gaps, in points */
+const GAP_STEP = 0.5;
+/** A table with this many horizontal rules inside it, each across most of its width, is ruled row by row */
+const RULED_MIN_RULES = 2;
+const RULE_SPAN_RATIO = 0.8;
+/** Rules this close (points) to the table's edge or to another cut are borders, not new cuts */
+const EDGE_TOLERANCE = 2;
+/** Cells stop this far (points) short of their edges, so translations keep clear of the rules */
+const CELL_INSET = 1;
+/** Letters a number may carry as its unit ("12 kg", "3.5 ms") and still be left alone */
+const MAX_UNIT_LETTERS = 3;
+
+export interface TableCell {
+  blocks: TextBlock[];
+  /**
+   * Area a translation of the cell may fill, in page coordinates: from the
+   * top left of the cell's text (as read) to the cell's far edges
+   */
+  bbox: BBox;
+}
+
+interface FramedBlock {
+  block: TextBlock;
+  /** The block's box in the frame of the table's text (see toTextFrame) */
+  box: BBox;
+}
+
+/**
+ * Whether a cell holds nothing to translate: numbers (with at most a short
+ * unit), dates, symbols or dashes.
+ */
+export function isNumericCell(text: string): boolean {
+  const words = text.match(/\p{L}+/gu) || [];
+  if (words.length === 0) return true;
+  return /\d/.test(text) && words.length === 1 && words[0].length <= MAX_UNIT_LETTERS;
+}
+
+/**
+ * Split a table's text blocks into cells.
+ *
+ * @param table - The table's box in page coordinates
+ * @param blocks - Text blocks inside the table
+ * @param rulings - The page's ruling lines (see extractRulings)
+ * @returns Cells with text, row by row from the top, each row as read
+ */
+export function splitTableCells(table: BBox, blocks: TextBlock[], rulings: BBox[]): TableCell[] {
+  // Work in the frame of the text, so rotated tables read left to right
+  const rotation = dominantRotation(blocks);
+  const items: FramedBlock[] = blocks
+    .filter((block) => block.text.trim() !== '')
+    .map((block) => ({ block, box: toTextFrame(block, rotation) }));
+  if (items.length === 0) return [];
+
+  const sizes = items.map((item) => item.block.fontSize).filter((s) => s > 0).sort((a, b) => a - b);
+  const em = sizes.length > 0 ? sizes[Math.floor(sizes.length / 2)] : 10;
+  const bounds = union([toTextFrame(table, rotation), ...items.map((item) => item.box)]);
+  const rules = rulings
+    .map((ruling) => toTextFrame(ruling, rotation))
+    .filter((rule) => Math.max(rule.width, rule.height) >= em && contains(bounds, rule));
+
+  const rowCuts = findRowCuts(items, rules, bounds);
+  // Top down, as read
+  const rowEdges = [bounds.y + bounds.height, ...rowCuts.sort((a, b) => b - a), bounds.y];
+  const rows = rowEdges.slice(1).map((bottom, r) =>
+    items.filter((item) => {
+      const center = item.box.y + item.box.height / 2;
+      return center <= rowEdges[r] && (center > bottom || r === rowEdges.length - 2);
+    })
+  );
+  const columnEdges = [bounds.x, ...findColumnCuts(rows, rules, bounds, em), bounds.x + bounds.width];
+
+  const cells: TableCell[] = [];
+  rows.forEach((row, r) => {
+    const bottom = rowEdges[r + 1];
+    // Columns each item reaches into; an item crossing a cut joins the columns into one cell
+    const spans = row
+      .map((item) => ({
+        item,
+        first: columnOf(columnEdges, item.box.x + CELL_INSET),
+        last: columnOf(columnEdges, item.box.x + item.box.width - CELL_INSET),
+      }))
+      .sort((a, b) => a.first - b.first);
+    let current: { items: FramedBlock[]; first: number; last: number } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const text = union(current.items.map((item) => item.box));
+      // From the text's top left to the cell's right and bottom edges
+      const right = columnEdges[current.last + 1] - CELL_INSET;
+      const cellBottom = bottom + CELL_INSET;
+      const area = {
+        x: text.x,
+        y: Math.min(cellBottom, text.y),
+        width: Math.max(right, text.x + text.width) - text.x,
+        height: text.y + text.height - Math.min(cellBottom, text.y),
+      };
+      cells.push({
+        blocks: current.items.map((item) => item.block),
+        // Back from the text's frame to page coordinates
+        bbox: toTextFrame(area, 360 - rotation),
+      });
+      current = null;
+    };
+    for (const span of spans) {
+      if (current && span.first <= current.last) {
+        current.items.push(span.item);
+        current.last = Math.max(current.last, span.last);
+      } else {
+        flush();
+        current = { items: [span.item], first: span.first, last: span.last };
+      }
+    }
+    flush();
+  });
+  return cells;
+}
+
+/**
+ * Heights at which rows are cut: the inner rules of a fully ruled table,
+ * otherwise the middle of the whitespace between lines of text.
+ */
+function findRowCuts(items: FramedBlock[], rules: BBox[], bounds: BBox): number[] {
+  const inner = rules.filter((rule) =>
+    rule.width >= RULE_SPAN_RATIO * bounds.width &&
+    rule.y > bounds.y + EDGE_TOLERANCE &&
+    rule.y < bounds.y + bounds.height - EDGE_TOLERANCE
+  );
+  const ruled = dedupe(inner.map((rule) => rule.y));
+  if (ruled.length >= RULED_MIN_RULES) return ruled;
+
+  const cuts: number[] = [];
+  const sorted = [...items].sort((a, b) => a.box.y - b.box.y);
+  let reach = sorted[0].box.y + sorted[0].box.height;
+  for (const { box } of sorted.slice(1)) {
+    if (box.y > reach) cuts.push((reach + box.y) / 2);
+    reach = Math.max(reach, box.y + box.height);
+  }
+  return cuts;
+}
+
+/**
+ * Positions at which columns are cut: whitespace running down (nearly) all
+ * rows, at a vertical rule inside it if there is one, and other inner
+ * vertical rules.
+ */
+function findColumnCuts(rows: FramedBlock[][], rules: BBox[], bounds: BBox, em: number): number[] {
+  const filled = rows.filter((row) => row.length > 0);
+  const allowed = Math.floor(filled.length * SPANNING_ROW_RATIO);
+  const verticals = rules.filter((rule) => rule.height > rule.width).map((rule) => rule.x);
+  const isInner = (x: number) => x > bounds.x + EDGE_TOLERANCE && x < bounds.x + bounds.width - EDGE_TOLERANCE;
+
+  const cuts: number[] = [];
+  let gapStart: number | null = null;
+  const endGap = (end: number) => {
+    if (gapStart === null) return;
+    // Whitespace at the table's edges is margin
+    if (gapStart > bounds.x && end < bounds.x + bounds.width && end - gapStart >= COLUMN_GAP_EMS * em) {
+      const rule = verticals.find((x) => x >= gapStart && x <= end);
+      cuts.push(rule ?? (gapStart + end) / 2);
+    }
+    gapStart = null;
+  };
+  for (let x = bounds.x; x <= bounds.x + bounds.width; x += GAP_STEP) {
+    const crossing = filled.filter((row) => row.some(({ box }) => x >= box.x && x <= box.x + box.width)).length;
+    if (crossing <= allowed) {
+      if (gapStart === null) gapStart = x;
+    } else {
+      endGap(x);
+    }
+  }
+  endGap(bounds.x + bounds.width);
+
+  for (const x of verticals) {
+    if (isInner(x) && cuts.every((cut) => Math.abs(cut - x) > EDGE_TOLERANCE)) cuts.push(x);
+  }
+  return dedupe(cuts);
+}
+
+/** Index of the column a position falls in */
+function columnOf(edges: number[], x: number): number {
+  let column = 0;
+  while (column < edges.length - 2 && x > edges[column + 1]) column++;
+  return column;
+}
+
+/** Sorted positions with near-duplicates (e.g. the two edges of a thin rule) merged */
+function dedupe(positions: number[]): number[] {
+  const sorted = [...positions].sort((a, b) => a - b);
+  return sorted.filter((p, i) => i === 0 || p - sorted[i - 1] > EDGE_TOLERANCE);
+}
+
+function contains(outer: BBox, inner: BBox): boolean {
+  return inner.x >= outer.x - EDGE_TOLERANCE &&
+    inner.x + inner.width <= outer.x + outer.width + EDGE_TOLERANCE &&
+    inner.y >= outer.y - EDGE_TOLERANCE &&
+    inner.y + inner.height <= outer.y + outer.height + EDGE_TOLERANCE;
+}
+
+function union(boxes: BBox[]): BBox {
+  const left = Math.min(...boxes.map((b) => b.x));
+  const bottom = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const top = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: left, y: bottom, width: right - left, height: top - bottom };
+}
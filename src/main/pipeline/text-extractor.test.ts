@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { assembleText, assembleTextWithFormulas, normalizeText } from './text-extractor';
+import { TextBlock } from './types';
+
+const FONT_SIZE = 10;
+const LINE_SPACING = 12;
+const FULL_WIDTH = 400;
+
+/** One text item per line, lines set LINE_SPACING apart from the top down */
+function lines(...rows: (string | [string, number])[]): TextBlock[] {
+  return rows.map((row, i) => {
+    const [text, width] = typeof row === 'string' ? [row, FULL_WIDTH] : row;
+    return { text, x: 50, y: 700 - i * LINE_SPACING, width, height: FONT_SIZE, fontSize: FONT_SIZE, fontName: 'Times' };
+  });
+}
+
+describe('assembleText', () => {
+  it('repairs a word hyphenated at the end of a line', () => {
+    expect(assembleText(lines('the results of the experi-', 'ment show a clear trend'))).toBe(
+      'the results of the experiment show a clear trend'
+    );
+  });
+
+  it('repairs a soft hyphen at the end of a line', () => {
+    expect(assembleText(lines('the results of the experi\u00AD', 'ment show'))).toBe('the results of the experiment show');
+  });
+
+  it('keeps the hyphen before a capitalised word', () => {
+    expect(assembleText(lines('a treaty between the Franco-', 'Prussian states'))).toBe(
+      'a treaty between the Franco-Prussian states'
+    );
+  });
+
+  it.each([
+    ['a well-', 'known result', 'a well-known result'],
+    ['a non-', 'linear model', 'a non-linear model'],
+    ['the state-of-the-', 'art method', 'the state-of-the-art method'],
+  ])('keeps the hyphen of a compound (%s)', (first, second, expected) => {
+    expect(assembleText(lines(first, second))).toBe(expected);
+  });
+
+  it('joins CJK lines without a space', () => {
+    expect(assembleText(lines('实验结果表明这种方法', '可以应用于实际问题'))).toBe('实验结果表明这种方法可以应用于实际问题');
+  });
+
+  it('starts a new paragraph after a wide gap', () => {
+    const blocks = lines('the first paragraph', 'ends here.', 'the second paragraph', 'goes on');
+    for (const block of blocks.slice(2)) block.y -= LINE_SPACING;
+    expect(assembleText(blocks)).toBe('the first paragraph ends here.\nthe second paragraph goes on');
+  });
+
+  it('starts a new paragraph at an indented line after a short one', () => {
+    const blocks = lines('first paragraph ends', ['here.', 100], 'second paragraph');
+    blocks[2].x += 15;
+    blocks[2].width -= 15;
+    expect(assembleText(blocks)).toBe('first paragraph ends here.\nsecond paragraph');
+  });
+});
+
+describe('normalizeText', () => {
+  it('folds ligatures and full-width letters and drops invisible characters', () => {
+    expect(normalizeText('ﬁnd ＡＢＣ zero\u200Bwidth')).toBe('find ABC zerowidth');
+  });
+});
+
+describe('list items', () => {
+  const paragraphsOf = (blocks: TextBlock[]) => {
+    const { text, paragraphs } = assembleTextWithFormulas(blocks);
+    return { texts: text.split('\n'), markers: paragraphs.map((p) => p.marker) };
+  };
+
+  it('start at numbers after a lead-in and after finished items', () => {
+    expect(paragraphsOf(lines('we make the following contributions:', ['1. a faster method.', 150], ['2. a new data set.', 140]))).toEqual({
+      texts: ['we make the following contributions:', 'a faster method.', 'a new data set.'],
+      markers: [undefined, '1.', '2.'],
+    });
+  });
+
+  it('start at a number after a short line ending a sentence', () => {
+    expect(paragraphsOf(lines('the paragraph before the list', ['ends here.', 80], '1) the only item'))).toEqual({
+      texts: ['the paragraph before the list ends here.', 'the only item'],
+      markers: [undefined, '1)'],
+    });
+  });
+
+  it('start at bullets anywhere', () => {
+    expect(paragraphsOf(lines('the list below runs on', '• first item'))).toEqual({
+      texts: ['the list below runs on', 'first item'],
+      markers: [undefined, '•'],
+    });
+  });
+
+  it('do not start at a number where a sentence wrapped', () => {
+    expect(paragraphsOf(lines('the method is described in Section', '3. The results follow in Section 4'))).toEqual({
+      texts: ['the method is described in Section 3. The results follow in Section 4'],
+      markers: [undefined],
+    });
+  });
+
+  it('do not start at a number after a full line outside a list', () => {
+    expect(paragraphsOf(lines('the first part ends here. See Fig.', '2. for the setup of the experiment'))).toEqual({
+      texts: ['the first part ends here. See Fig. 2. for the setup of the experiment'],
+      markers: [undefined],
+    });
+  });
+
+  it('start at the next number level with the previous item', () => {
+    expect(paragraphsOf(lines('a) The first item is long enough to fill its line.', 'b) The second item.'))).toEqual({
+      texts: ['The first item is long enough to fill its line.', 'The second item.'],
+      markers: ['a)', 'b)'],
+    });
+  });
+});
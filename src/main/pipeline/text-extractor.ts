@@ -1,43 +1,726 @@
 /**
- * Extract text blocks with positions from a PDF page using pdfjs-dist.
+ * Extract text blocks with positions and style from a PDF page using
+ * pdfjs-dist, and assemble blocks back into lines and paragraphs of clean text.
  */
-import { TextBlock } from './types';
+import { BBox, FormulaSpan, ParagraphLayout, TextBlock } from './types';
+import { pdfjsPageGeometry, quarterTurns, toTextFrame, userToPage } from './page-geometry';
+import { isMathFiller, isMathFont, isMathText, placeholder } from './formula';
+
+/** A gap wider than this (in ems) between two items on a line is a word space */
+const WORD_GAP_EMS = 0.15;
+/** Lines further apart than this multiple of the usual line spacing start a new paragraph */
+const PARAGRAPH_GAP_RATIO = 1.5;
+/** Line spacing assumed when a region has too few lines to measure it (in ems) */
+const DEFAULT_LINE_SPACING_EMS = 1.2;
+/** A line ending this far (in ems) short of the region's right edge may end a paragraph */
+const SHORT_LINE_EMS = 2;
+/** ...if the next line is indented by at least this much */
+const INDENT_EMS = 0.8;
+/** A bullet opening a list item, followed by a space: "•", "–", "*", "①" */
+const BULLET_MARKER = /^([•◦▪▫‣⁃●○■□►▸✓✔\-–*·\u2460-\u2473])\s+/u;
+/**
+ * An item number, followed by a space: "3.", "3)", "(3)", "b)", "iv.". Inside
+ * a paragraph it may just be where a line wrapped ("... in Section\n3. The").
+ */
+const NUMBER_MARKER = /^(\(?(?:\d{1,3}|[a-z]|[ivx]{1,4})[.)]|\((?:\d{1,3}|[a-zA-Z]|[ivxIVX]{1,4})\))\s+/u;
+/** A line ending a sentence, before closing quotes or brackets */
+const SENTENCE_END = /[.!?;。！？；][”’"')\]]*$/u;
+/** A line introducing what follows ("The steps are:") */
+const LEAD_IN = /[:：]$/u;
+
+/** Soft hyphens, zero-width spaces and joiners, byte order marks */
+const INVISIBLE = /[\u00AD\u200B-\u200D\u2060\uFEFF]/g;
+const WIDE_END = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303F\uFF00-\uFFEF]$/u;
+const WIDE_START = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303F\uFF00-\uFFEF]/u;
+/** A word broken at the end of a line: letter, then a hyphen (or a soft hyphen, before it is stripped) */
+const LINE_END_HYPHEN = /\p{L}[-\u00AD\u2010]$/u;
+/** Words that start hyphenated compounds ("well-known", "self-consistent"), so their hyphen is kept */
+const COMPOUND_HEAD = /(?:^|[^\p{L}])(?:all|anti|cross|half|ill|multi|non|pseudo|quasi|self|semi|well)[-\u2010]$/iu;
+
+/** Sub- and superscripts sit this far off their line's baseline (in ems of the line)... */
+const SCRIPT_OFFSET_EMS = 0.15;
+/** ...and are set at most this fraction of the line's font size */
+const SCRIPT_SIZE_RATIO = 0.9;
+/** Text boxes stop at the baseline; formula areas reach this far below it (in ems) to take in descenders */
+const FORMULA_DESCENT_EMS = 0.25;
+
+/** Font names that mark a bold or italic face when the font's flags don't */
+const BOLD_NAME = /bold|black|heavy|semibold|demi/i;
+const ITALIC_NAME = /italic|oblique/i;
+/** Text rendering mode 3 draws nothing (e.g. the text layer of a scanned page) */
+const INVISIBLE_TEXT_MODE = 3;
+
+/** Path segments shorter than this (points) are not ruling lines */
+const MIN_RULING_LENGTH = 4;
+/** Segments drifting less than this (points) across their length count as straight horizontal or vertical */
+const RULING_TOLERANCE = 0.5;
+/** Path commands in pdfjs' constructPath data (pdfjs' DrawOPS, which it doesn't export) */
+const PATH_MOVE_TO = 0;
+const PATH_LINE_TO = 1;
+const PATH_CURVE_TO = 2;
+const PATH_QUADRATIC_CURVE_TO = 3;
+const PATH_CLOSE = 4;
+
+type Matrix = [number, number, number, number, number, number];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+function parseHexColor(hex: string): [number, number, number] | undefined {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return undefined;
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+}
+
+type Point = [number, number];
+
+/** Text drawn by one show-text operator: start and end of its baseline in user space */
+interface ColoredRun {
+  start: Point;
+  end: Point;
+  color: [number, number, number];
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  color: [number, number, number];
+  font: any;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  hScale: number;
+  leading: number;
+  rise: number;
+  renderMode: number;
+}
+
+/**
+ * Walk the page's operator list, tracking the fill colour and text position,
+ * and return where each piece of visible text was drawn and in what colour.
+ * The text content API reports positions but not colours, so this replays
+ * just enough of the content stream to connect the two.
+ */
+async function extractColoredRuns(page: any): Promise<ColoredRun[]> {
+  const { OPS } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const runs: ColoredRun[] = [];
+
+  let state: GraphicsState = {
+    ctm: [1, 0, 0, 1, 0, 0],
+    color: [0, 0, 0],
+    font: null,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    hScale: 1,
+    leading: 0,
+    rise: 0,
+    renderMode: 0,
+  };
+  const stack: GraphicsState[] = [];
+  let textMatrix: Matrix = [1, 0, 0, 1, 0, 0];
+  let lineMatrix: Matrix = [1, 0, 0, 1, 0, 0];
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push({ ...state });
+        break;
+      case OPS.restore:
+        state = stack.pop() || state;
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push({ ...state });
+        if (args?.[0]) state.ctm = multiply(Array.from(args[0]) as Matrix, state.ctm);
+        break;
+      case OPS.paintFormXObjectEnd:
+        state = stack.pop() || state;
+        break;
+      case OPS.transform:
+        state.ctm = multiply(args as Matrix, state.ctm);
+        break;
+      case OPS.setFillRGBColor:
+        state.color = parseHexColor(args[0]) || state.color;
+        break;
+      case OPS.setFont:
+        state.font = page.commonObjs.has(args[0]) ? page.commonObjs.get(args[0]) : null;
+        state.fontSize = Math.abs(args[1]);
+        break;
+      case OPS.setCharSpacing:
+        state.charSpacing = args[0];
+        break;
+      case OPS.setWordSpacing:
+        state.wordSpacing = args[0];
+        break;
+      case OPS.setHScale:
+        state.hScale = args[0] / 100;
+        break;
+      case OPS.setLeading:
+        state.leading = args[0];
+        break;
+      case OPS.setTextRise:
+        state.rise = args[0];
+        break;
+      case OPS.setTextRenderingMode:
+        state.renderMode = args[0];
+        break;
+      case OPS.beginText:
+        textMatrix = lineMatrix = [1, 0, 0, 1, 0, 0];
+        break;
+      case OPS.setTextMatrix:
+        textMatrix = lineMatrix = Array.from(args[0]) as Matrix;
+        break;
+      case OPS.moveText:
+        moveLine(args[0], args[1]);
+        break;
+      case OPS.setLeadingMoveText:
+        state.leading = -args[1];
+        moveLine(args[0], args[1]);
+        break;
+      case OPS.nextLine:
+        moveLine(0, -state.leading);
+        break;
+      case OPS.showText: {
+        // Advance in unscaled text space; numbers in the array are kerning in thousandths of an em.
+        // Vertical fonts advance down the y axis by their vertical metrics (w1y, negative)
+        const unitsPerEm = state.font?.fontMatrix?.[0] ?? 0.001;
+        const vertical = !!state.font?.vertical;
+        let advance = 0;
+        for (const glyph of args[0]) {
+          if (typeof glyph === 'number') {
+            advance -= (glyph * state.fontSize) / 1000;
+          } else if (glyph) {
+            const glyphAdvance = vertical
+              ? (glyph.vmetric?.[0] ?? state.font.defaultVMetrics?.[0] ?? -1000)
+              : (glyph.width || 0);
+            advance += glyphAdvance * state.fontSize * unitsPerEm + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0);
+          }
+        }
+        const [tx, ty] = vertical ? [0, advance] : [advance * state.hScale, 0];
+
+        if (state.renderMode !== INVISIBLE_TEXT_MODE) {
+          const toUser = multiply(textMatrix, state.ctm);
+          runs.push({
+            start: applyMatrix(toUser, 0, state.rise),
+            end: applyMatrix(toUser, tx, ty + state.rise),
+            color: state.color,
+          });
+        }
+        textMatrix = multiply([1, 0, 0, 1, tx, ty], textMatrix);
+        break;
+      }
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Horizontal and vertical lines drawn on the page, such as table rules and
+ * cell borders, as boxes of zero height or width in page coordinates. Rules
+ * drawn as thin filled rectangles show up as their two long edges.
+ */
+export async function extractRulings(page: any): Promise<BBox[]> {
+  const { OPS } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const geometry = pdfjsPageGeometry(page);
+  const rulings: BBox[] = [];
+
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  const stack: Matrix[] = [];
+
+  const addSegment = (from: Point, to: Point) => {
+    const [ax, ay] = userToPage(geometry, ...applyMatrix(ctm, from[0], from[1]));
+    const [bx, by] = userToPage(geometry, ...applyMatrix(ctm, to[0], to[1]));
+    const dx = Math.abs(bx - ax);
+    const dy = Math.abs(by - ay);
+    if (Math.max(dx, dy) < MIN_RULING_LENGTH || Math.min(dx, dy) > RULING_TOLERANCE) return;
+    rulings.push(dx >= dy
+      ? { x: Math.min(ax, bx), y: (ay + by) / 2, width: dx, height: 0 }
+      : { x: (ax + bx) / 2, y: Math.min(ay, by), width: 0, height: dy });
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() || ctm;
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (args?.[0]) ctm = multiply(Array.from(args[0]) as Matrix, ctm);
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() || ctm;
+        break;
+      case OPS.transform:
+        ctm = multiply(args as Matrix, ctm);
+        break;
+      case OPS.constructPath: {
+        // [painting operator, [path data], bounds]; a path that is only a clip draws nothing
+        const [paint, [data]] = args;
+        if (paint === OPS.endPath || !data) break;
+        let start: Point = [0, 0];
+        let current: Point = [0, 0];
+        for (let k = 0; k < data.length;) {
+          switch (data[k]) {
+            case PATH_MOVE_TO:
+              start = current = [data[k + 1], data[k + 2]];
+              k += 3;
+              break;
+            case PATH_LINE_TO: {
+              const next: Point = [data[k + 1], data[k + 2]];
+              addSegment(current, next);
+              current = next;
+              k += 3;
+              break;
+            }
+            case PATH_CURVE_TO:
+              current = [data[k + 5], data[k + 6]];
+              k += 7;
+              break;
+            case PATH_QUADRATIC_CURVE_TO:
+              current = [data[k + 3], data[k + 4]];
+              k += 5;
+              break;
+            case PATH_CLOSE:
+              addSegment(current, start);
+              current = start;
+              k += 1;
+              break;
+            default:
+              k = data.length;
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return rulings;
+}
+
+/**
+ * Colour of the run that covers most of a text item on the same baseline.
+ * The item is given by the start and end of its baseline in user space, so
+ * rotated text is compared along its own direction.
+ */
+function colorOf(start: Point, end: Point, fontSize: number, runs: ColoredRun[]): [number, number, number] | undefined {
+  const tolerance = Math.max(1, fontSize * 0.3);
+  let best: ColoredRun | undefined;
+  let bestOverlap = -1;
+  for (const run of runs) {
+    const length = Math.hypot(run.end[0] - run.start[0], run.end[1] - run.start[1]);
+    const [ux, uy] = length > 0 ? [(run.end[0] - run.start[0]) / length, (run.end[1] - run.start[1]) / length] : [1, 0];
+    // Distance of the item from the run's baseline, and the item's extent along it
+    const offset = (start[0] - run.start[0]) * -uy + (start[1] - run.start[1]) * ux;
+    if (Math.abs(offset) > tolerance) continue;
+    const from = (start[0] - run.start[0]) * ux + (start[1] - run.start[1]) * uy;
+    const to = (end[0] - run.start[0]) * ux + (end[1] - run.start[1]) * uy;
+    // Zero means touching, which still counts when nothing overlaps more
+    const overlap = Math.min(length, Math.max(from, to)) - Math.max(0, Math.min(from, to));
+    if (overlap > bestOverlap) {
+      best = run;
+      bestOverlap = overlap;
+    }
+  }
+  return best?.color;
+}
+
+/** Bold and italic from the font's flags, falling back to its name (e.g. "ABCDEF+Times-BoldItalic") */
+function fontStyle(font: any): { bold: boolean; italic: boolean } {
+  if (!font) return { bold: false, italic: false };
+  const name = String(font.name || '');
+  return {
+    bold: !!(font.bold || font.black) || BOLD_NAME.test(name),
+    italic: !!font.italic || ITALIC_NAME.test(name),
+  };
+}
+
+/**
+ * Normalise extracted text: NFKC folds ligatures (ﬁ → fi), full-width Latin
+ * and compatibility forms; invisible characters are dropped.
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').replace(INVISIBLE, '');
+}
+
+function unit(x: number, y: number): Point {
+  const length = Math.hypot(x, y) || 1;
+  return [x / length, y / length];
+}
 
 /**
  * Extract text items from a pdfjs-dist page.
- * Returns TextBlock[] with PDF coordinate positions (bottom-left origin).
+ * Returns TextBlock[] with boxes in page coordinates (bottom-left origin, as
+ * the page is displayed) and the direction each item runs in, including
+ * bold/italic and fill colour where they can be determined.
  */
 export async function extractText(page: any): Promise<TextBlock[]> {
   const textContent = await page.getTextContent();
+  const geometry = pdfjsPageGeometry(page);
   const blocks: TextBlock[] = [];
 
+  // Style is a nicety: a page whose operator list can't be read still yields its text
+  let runs: ColoredRun[] = [];
+  try {
+    runs = await extractColoredRuns(page);
+  } catch (err) {
+    console.warn('Could not read text colours from the page:', err);
+  }
+
   for (const item of textContent.items) {
     if (!item.str || item.str.trim() === '') continue;
 
-    // item.transform = [scaleX, skewY, skewX, scaleY, translateX, translateY]
+    // item.transform = [scaleX, skewY, skewX, scaleY, translateX, translateY], in user space.
+    // Its x axis runs along the glyphs' baseline and its y axis up them, at any angle
     const transform = item.transform;
     if (!transform || transform.length < 6) continue;
 
-    const scaleX = Math.abs(transform[0]);
-    const scaleY = Math.abs(transform[3]);
-    const fontSize = Math.max(scaleX, scaleY);
-    const x = transform[4];
-    const y = transform[5];
-
-    // Width from item or estimate
-    const width = item.width || (item.str.length * fontSize * 0.5);
-    const height = item.height || fontSize;
-
-    blocks.push({
-      text: item.str,
-      x,
-      y,
-      width,
-      height,
+    const [a, b, c, d, x, y] = transform;
+    const fontSize = Math.max(Math.hypot(a, b), Math.hypot(c, d));
+    const fontName = item.fontName || '';
+    const vertical = !!textContent.styles?.[fontName]?.vertical;
+
+    // Horizontal text runs along the x axis for item.width, item.height high;
+    // vertical text runs down the y axis for item.height, item.width wide and centred.
+    // Width and height fall back to estimates
+    const across = unit(a, b);
+    const up = unit(c, d);
+    let along: Point;
+    let side: Point;
+    let length: number;
+    let thickness: number;
+    let start: Point;
+    if (vertical) {
+      along = [-up[0], -up[1]];
+      side = across;
+      length = item.height || (item.str.length * fontSize);
+      thickness = item.width || fontSize;
+      start = [x - (side[0] * thickness) / 2, y - (side[1] * thickness) / 2];
+    } else {
+      along = across;
+      side = up;
+      length = item.width || (item.str.length * fontSize * 0.5);
+      thickness = item.height || fontSize;
+      start = [x, y];
+    }
+
+    const corners = [[0, 0], [length, 0], [0, thickness], [length, thickness]].map(([s, t]) =>
+      userToPage(geometry, start[0] + along[0] * s + side[0] * t, start[1] + along[1] * s + side[1] * t)
+    );
+    const xs = corners.map((p) => p[0]);
+    const ys = corners.map((p) => p[1]);
+    const [dx, dy] = [corners[1][0] - corners[0][0], corners[1][1] - corners[0][1]];
+    const rotation = quarterTurns((Math.atan2(dy, dx) * 180) / Math.PI);
+
+    // Fonts are shared through commonObjs once the operator list has loaded them
+    const font = fontName && page.commonObjs?.has(fontName) ? page.commonObjs.get(fontName) : null;
+    const block: TextBlock = {
+      // Soft hyphens are kept for now: at a line end they mark hyphenation (see assembleText)
+      text: item.str.normalize('NFKC'),
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
       fontSize,
-      fontName: item.fontName || '',
-    });
+      fontName,
+      ...fontStyle(font),
+    };
+    if (rotation) block.rotation = rotation;
+    if (vertical) block.vertical = true;
+    if ((font && isMathFont(String(font.name || ''))) || isMathText(block.text)) block.formula = true;
+    const color = colorOf([x, y], [x + along[0] * length, y + along[1] * length], fontSize, runs);
+    if (color) block.color = color;
+    blocks.push(block);
   }
 
   return blocks;
 }
+
+interface Line {
+  blocks: TextBlock[];
+  left: number;
+  right: number;
+  baseline: number;
+  fontSize: number;
+}
+
+function verticalOverlap(a: TextBlock, b: TextBlock): number {
+  const overlap = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return overlap / Math.max(1e-6, Math.min(a.height, b.height));
+}
+
+/** Group blocks into lines (top to bottom); superscripts and subscripts stay on their line */
+function groupLines(blocks: TextBlock[]): Line[] {
+  const lines: Line[] = [];
+  const sorted = [...blocks].sort((a, b) => (b.y + b.height) - (a.y + a.height));
+  for (const block of sorted) {
+    const line = lines.find((l) => l.blocks.some((b) => verticalOverlap(b, block) > 0.5));
+    if (line) {
+      line.blocks.push(block);
+      line.left = Math.min(line.left, block.x);
+      line.right = Math.max(line.right, block.x + block.width);
+      if (block.fontSize > line.fontSize) {
+        line.fontSize = block.fontSize;
+        line.baseline = block.y;
+      }
+    } else {
+      lines.push({ blocks: [block], left: block.x, right: block.x + block.width, baseline: block.y, fontSize: block.fontSize || 10 });
+    }
+  }
+  for (const line of lines) line.blocks.sort((a, b) => a.x - b.x);
+  return lines.sort((a, b) => b.baseline - a.baseline);
+}
+
+/** Join a line's items, adding a space only where there is a real gap */
+function joinLine(line: Line): string {
+  let text = '';
+  let previous: TextBlock | null = null;
+  for (const block of line.blocks) {
+    if (previous) {
+      const gap = block.x - (previous.x + previous.width);
+      const em = Math.max(previous.fontSize, block.fontSize) || line.fontSize;
+      const spaced = /\s$/.test(text) || /^\s/.test(block.text);
+      const wide = WIDE_END.test(text) && WIDE_START.test(block.text);
+      if (gap > WORD_GAP_EMS * em && !spaced && !wide) text += ' ';
+    }
+    text += block.text;
+    previous = block;
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Replace the line's formula runs by placeholder items, adding each run to
+ * `formulas`. Formula items are those in a math font or of math symbols,
+ * sub- and superscripts, and digits or operators between two of them.
+ *
+ * @param rotation - Rotation the line's blocks were turned by (see assembleText)
+ */
+function cutFormulas(line: Line, rotation: number, formulas: FormulaSpan[]): Line {
+  const isScript = (b: TextBlock) =>
+    b.fontSize < line.fontSize * SCRIPT_SIZE_RATIO && Math.abs(b.y - line.baseline) > SCRIPT_OFFSET_EMS * line.fontSize;
+  const flags = line.blocks.map((b) => !!b.formula || isScript(b));
+  line.blocks.forEach((b, i) => {
+    if (!flags[i] && flags[i - 1] && flags[i + 1] && isMathFiller(b.text)) flags[i] = true;
+  });
+  if (!flags.includes(true)) return line;
+
+  const blocks: TextBlock[] = [];
+  let run: TextBlock[] = [];
+  const endRun = () => {
+    if (run.length === 0) return;
+    const left = Math.min(...run.map((b) => b.x));
+    const right = Math.max(...run.map((b) => b.x + b.width));
+    const bottom = Math.min(...run.map((b) => b.y), line.baseline - FORMULA_DESCENT_EMS * line.fontSize);
+    const top = Math.max(...run.map((b) => b.y + b.height));
+    formulas.push({
+      text: joinLine({ ...line, blocks: run }),
+      // Back from the text's frame to page coordinates
+      bbox: toTextFrame({ x: left, y: bottom, width: right - left, height: top - bottom }, 360 - rotation),
+      fontSize: line.fontSize,
+      baselineOffset: bottom - line.baseline,
+    });
+    blocks.push({ ...run[0], text: placeholder(formulas.length - 1), x: left, width: right - left, formula: true });
+    run = [];
+  };
+  line.blocks.forEach((b, i) => {
+    if (flags[i]) {
+      run.push(b);
+    } else {
+      endRun();
+      blocks.push(b);
+    }
+  });
+  endRun();
+  return { ...line, blocks };
+}
+
+/**
+ * Where the text after a list marker starts on the line: at the next item if
+ * the marker is an item of its own, otherwise estimated from its share of
+ * the item's characters.
+ */
+function textStartAfter(line: Line, marker: string): number {
+  let remaining = marker.replace(/\s/g, '').length;
+  for (const block of line.blocks) {
+    const chars = Array.from(block.text);
+    const visible = chars.filter((char) => !/\s/.test(char)).length;
+    if (remaining === 0 && visible > 0) return block.x;
+    if (visible <= remaining) {
+      remaining -= visible;
+      continue;
+    }
+    let offset = 0;
+    while (remaining > 0 || /\s/.test(chars[offset])) {
+      if (!/\s/.test(chars[offset])) remaining--;
+      offset++;
+    }
+    return block.x + (block.width * offset) / chars.length;
+  }
+  return line.right;
+}
+
+/**
+ * Join text ending in a hyphen to the text continuing it, or null if it
+ * doesn't end in one. A soft hyphen and a word broken by hyphenation are
+ * closed up; a compound ("Franco-Prussian", "well-known", "state-of-the-art")
+ * keeps its hyphen.
+ */
+export function joinHyphenated(text: string, next: string): string | null {
+  if (!LINE_END_HYPHEN.test(text)) return null;
+  if (text.endsWith('\u00AD')) return text.slice(0, -1) + next;
+  if (/^[\p{Lu}\p{N}]/u.test(next)) return text + next;
+  if (!/^\p{Ll}/u.test(next)) return null;
+  // A word already hyphenated earlier is a compound
+  if (COMPOUND_HEAD.test(text) || /\p{L}[-\u2010]\p{L}+[-\u2010]$/u.test(text)) return text + next;
+  return text.slice(0, -1) + next;
+}
+
+/** Append a line to a paragraph, repairing end-of-line hyphenation */
+function appendLine(paragraph: string, line: string): string {
+  if (!paragraph) return line;
+  const joined = joinHyphenated(paragraph, line);
+  if (joined !== null) return joined;
+  if (WIDE_END.test(paragraph) && WIDE_START.test(line)) return paragraph + line;
+  return `${paragraph} ${line}`;
+}
+
+/**
+ * The direction most of the blocks' text runs in (degrees counter-clockwise),
+ * weighted by character count.
+ */
+export function dominantRotation(blocks: TextBlock[]): number {
+  const weights = new Map<number, number>();
+  for (const block of blocks) {
+    const rotation = block.rotation || 0;
+    weights.set(rotation, (weights.get(rotation) || 0) + block.text.trim().length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [rotation, weight] of weights) {
+    if (weight > bestWeight) { best = rotation; bestWeight = weight; }
+  }
+  return best;
+}
+
+/**
+ * Assemble text blocks (e.g. those matched to one region) into clean text:
+ * items are merged into lines by baseline and real gaps, lines into
+ * paragraphs with hyphenation repaired, and paragraphs separated by '\n'.
+ * Rotated and vertical text is first turned so that it runs left to right.
+ */
+export function assembleText(blocks: TextBlock[]): string {
+  return assemble(blocks, null).text;
+}
+
+/**
+ * Same as assembleText, but with inline formulas replaced by placeholders
+ * ({v0}, {v1}, ...) so they pass through translation untouched, and list
+ * markers taken out of the text into the layout of each paragraph.
+ */
+export function assembleTextWithFormulas(blocks: TextBlock[]): {
+  text: string;
+  formulas: FormulaSpan[];
+  paragraphs: ParagraphLayout[];
+} {
+  const formulas: FormulaSpan[] = [];
+  const { text, paragraphs } = assemble(blocks, formulas);
+  return { text, formulas, paragraphs };
+}
+
+/**
+ * A new paragraph starts after a wide gap, at a list marker, or at an
+ * indented line after a short one. An item number inside a paragraph only
+ * starts an item after a lead-in, or after a finished sentence when that line
+ * is short or the number is level with the list's other items.
+ *
+ * @param formulas - Collects the formulas cut out of the text and takes list
+ *   markers out of it; null keeps both as text
+ */
+function assemble(blocks: TextBlock[], formulas: FormulaSpan[] | null): { text: string; paragraphs: ParagraphLayout[] } {
+  const rotation = dominantRotation(blocks);
+  const framed = rotation ? blocks.map((b) => ({ ...b, ...toTextFrame(b, rotation) })) : blocks;
+  const lines = groupLines(framed.filter((b) => b.text.trim() !== ''));
+  if (lines.length === 0) return { text: '', paragraphs: [] };
+
+  // Usual distance between baselines, to recognise the larger gaps between paragraphs
+  const spacings = lines.slice(1).map((line, i) => lines[i].baseline - line.baseline).sort((a, b) => a - b);
+  const usualSpacing = spacings.length >= 2
+    ? spacings[Math.floor(spacings.length / 2)]
+    : DEFAULT_LINE_SPACING_EMS * lines[0].fontSize;
+  const left = Math.min(...lines.map((l) => l.left));
+  const right = Math.max(...lines.map((l) => l.right));
+
+  const paragraphs: { text: string; layout: ParagraphLayout; lines: number }[] = [];
+  let paragraph: (typeof paragraphs)[number] | null = null;
+  let previousText = '';
+  lines.forEach((line, i) => {
+    const cut = formulas ? cutFormulas(line, rotation, formulas) : line;
+    let text = joinLine(cut);
+    if (!text) return;
+    const bullet = BULLET_MARKER.exec(text);
+    let marker = bullet ?? NUMBER_MARKER.exec(text);
+    const previous = i > 0 ? lines[i - 1] : null;
+    const em = line.fontSize;
+    if (paragraph && previous) {
+      const wideGap = previous.baseline - line.baseline > usualSpacing * PARAGRAPH_GAP_RATIO;
+      const short = previous.right < right - SHORT_LINE_EMS * em;
+      // A list item's following lines may hang under its text
+      const hanging = !!paragraph.layout.marker && Math.abs(line.left - left - paragraph.layout.indent) < INDENT_EMS * em;
+      const indented = short && line.left > left + INDENT_EMS * em && !hanging;
+      if (marker && !bullet && !wideGap && !indented) {
+        const nextItem = !!paragraph.layout.marker && Math.abs(line.left - left - paragraph.layout.firstIndent) < INDENT_EMS * em;
+        if (!LEAD_IN.test(previousText) && !(SENTENCE_END.test(previousText) && (short || nextItem))) marker = null;
+      }
+      if (wideGap || indented || marker) paragraph = null;
+    }
+    previousText = text;
+    if (!paragraph) {
+      const gap = previous ? previous.baseline - line.baseline - usualSpacing : 0;
+      paragraph = {
+        text: '',
+        layout: { firstIndent: line.left - left, indent: 0, spaceBefore: Math.max(0, gap / em) },
+        lines: 0,
+      };
+      if (marker) {
+        paragraph.layout.marker = marker[1];
+        // Until a second line shows the item's hanging indent
+        paragraph.layout.indent = textStartAfter(cut, marker[0]) - left;
+        if (formulas) text = text.slice(marker[0].length);
+      }
+      paragraphs.push(paragraph);
+    } else if (paragraph.lines === 1) {
+      paragraph.layout.indent = line.left - left;
+    }
+    paragraph.text = appendLine(paragraph.text, text);
+    paragraph.lines++;
+  });
+
+  return {
+    text: paragraphs.map((p) => normalizeText(p.text)).join('\n'),
+    paragraphs: paragraphs.map((p) => p.layout),
+  };
+}
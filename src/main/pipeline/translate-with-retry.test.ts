@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { translateWithRetry } from './translate-with-retry';
+import { Translator } from './translator';
+import { CANCELLED_MESSAGE } from './abort';
+
+/** Fails each text in `failures` as many times as given there, then upper-cases it */
+class FlakyTranslator implements Translator {
+  calls: string[] = [];
+  batchError: Error | null = null;
+  private failures: Map<string, number>;
+
+  constructor(failures: Record<string, number> = {}) {
+    this.failures = new Map(Object.entries(failures));
+  }
+
+  async translate(text: string): Promise<string> {
+    this.calls.push(text);
+    const left = this.failures.get(text) || 0;
+    if (left > 0) {
+      this.failures.set(text, left - 1);
+      throw new Error(`failed: ${text}`);
+    }
+    return text.toUpperCase();
+  }
+
+  async translateBatch(texts: string[]): Promise<(string | Error)[]> {
+    if (this.batchError) throw this.batchError;
+    return Promise.all(texts.map((text) => this.translate(text).catch((err: Error) => err)));
+  }
+}
+
+/** Run with the backoff waits skipped */
+async function run(translator: Translator, texts: string[]) {
+  const result = translateWithRetry(translator, texts, 'en', 'zh-CN');
+  await vi.runAllTimersAsync();
+  return result;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('translateWithRetry', () => {
+  it('returns the batch when every text succeeds', async () => {
+    const translator = new FlakyTranslator();
+    expect(await run(translator, ['a', 'b'])).toEqual({ translations: ['A', 'B'], errors: [null, null] });
+    expect(translator.calls).toEqual(['a', 'b']);
+  });
+
+  it('retries only the texts that failed in the batch', async () => {
+    const translator = new FlakyTranslator({ b: 1 });
+    expect(await run(translator, ['a', 'b', 'c'])).toEqual({ translations: ['A', 'B', 'C'], errors: [null, null, null] });
+    expect(translator.calls).toEqual(['a', 'b', 'c', 'b']);
+  });
+
+  it('reports a text that keeps failing and keeps the others', async () => {
+    const translator = new FlakyTranslator({ b: 10 });
+    expect(await run(translator, ['a', 'b'])).toEqual({ translations: ['A', null], errors: [null, 'failed: b'] });
+    // The batch, then two retries
+    expect(translator.calls.filter((text) => text === 'b')).toHaveLength(3);
+  });
+
+  it('retries every text when the batch fails as a whole', async () => {
+    const translator = new FlakyTranslator();
+    translator.batchError = new Error('network down');
+    expect(await run(translator, ['a', 'b'])).toEqual({ translations: ['A', 'B'], errors: [null, null] });
+  });
+
+  it('does not retry once cancelled', async () => {
+    const controller = new AbortController();
+    const translator = new FlakyTranslator();
+    translator.batchError = new Error(CANCELLED_MESSAGE);
+    controller.abort();
+    await expect(translateWithRetry(translator, ['a'], 'en', 'zh-CN', controller.signal)).rejects.toThrow(CANCELLED_MESSAGE);
+    expect(translator.calls).toEqual([]);
+  });
+});
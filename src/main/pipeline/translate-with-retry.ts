@@ -0,0 +1,69 @@
+/**
+ * Failure-tolerant translation of a page's regions.
+ * Regions whose batch item failed are retried one by one; regions that still
+ * fail are reported instead of failing the whole document.
+ */
+import { Translator, toError } from './translator';
+import { delay, throwIfAborted } from './abort';
+
+/** Extra attempts per region after its batch item failed */
+const MAX_REGION_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+export interface RegionTranslationResult {
+  /** Translated text per input, or null if the region could not be translated */
+  translations: (string | null)[];
+  /** Error message per input for regions that failed */
+  errors: (string | null)[];
+}
+
+/**
+ * Translate texts as one batch, then retry only the texts that failed, with
+ * exponential backoff. Texts translated by the batch are kept as they are.
+ * @param signal - Aborts in-flight requests and backoff waits; cancellation is never retried
+ */
+export async function translateWithRetry(
+  translator: Translator,
+  texts: string[],
+  from: string,
+  to: string,
+  signal?: AbortSignal
+): Promise<RegionTranslationResult> {
+  let settled: (string | Error)[];
+  try {
+    settled = await translator.translateBatch(texts, from, to, signal);
+  } catch (batchErr) {
+    throwIfAborted(signal);
+    // The batch failed as a whole, so every text is retried
+    settled = texts.map(() => toError(batchErr));
+  }
+
+  const translations: (string | null)[] = [];
+  const errors: (string | null)[] = [];
+
+  for (let i = 0; i < texts.length; i++) {
+    let translated: string | null = null;
+    let lastError = 'Unknown error';
+    const first = settled[i];
+    if (typeof first === 'string') {
+      translated = first;
+    } else {
+      lastError = first?.message || lastError;
+      for (let attempt = 1; attempt <= MAX_REGION_RETRIES; attempt++) {
+        await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+        try {
+          translated = await translator.translate(texts[i], from, to, signal);
+          break;
+        } catch (err: any) {
+          throwIfAborted(signal);
+          lastError = err?.message || String(err);
+        }
+      }
+    }
+
+    translations.push(translated);
+    errors.push(translated === null ? lastError : null);
+  }
+
+  return { translations, errors };
+}
@@ -0,0 +1,98 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createTranslationDocument,
+  documentToPageRegions,
+  loadTranslationDocument,
+  saveTranslationDocument,
+  TRANSLATION_DOCUMENT_VERSION,
+} from './translation-document';
+import { TranslatedRegion } from './types';
+
+let tempDir: string;
+let inputPath: string;
+let documentPath: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf2zh-test-'));
+  inputPath = path.join(tempDir, 'paper.pdf');
+  documentPath = path.join(tempDir, 'paper_translated.json');
+  fs.writeFileSync(inputPath, '%PDF-1.4 test');
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function region(overrides: Partial<TranslatedRegion> = {}): TranslatedRegion {
+  return {
+    layoutBox: { bbox: { x: 0, y: 0, width: 100, height: 20 }, classId: 1, className: 'plain_text', confidence: 0.9 },
+    textBlocks: [{ text: 'Hello world', x: 10, y: 700, width: 80, height: 12, fontSize: 10, fontName: 'Times' }],
+    fullText: 'Hello world',
+    pdfBBox: { x: 10, y: 700, width: 80, height: 12 },
+    translatedText: '你好，世界',
+    ...overrides,
+  };
+}
+
+/** Write a document with one region changed by `edit`, as a hand edit would */
+function writeEdited(edit: (region: any) => void): void {
+  const doc: any = createTranslationDocument(inputPath, new Map([[0, [region()]]]), 'en', 'zh-CN');
+  edit(doc.pages[0].regions[0]);
+  fs.writeFileSync(documentPath, JSON.stringify(doc));
+}
+
+describe('translation documents', () => {
+  it('round-trip through save, load and conversion back to regions', () => {
+    const original = region({
+      formulas: [{ text: 'x^2', bbox: { x: 40, y: 700, width: 10, height: 12 }, fontSize: 10, baselineOffset: 0 }],
+      paragraphs: [{ marker: '•', firstIndent: 0, indent: 8, spaceBefore: 0 }],
+      style: { bold: true, italic: false, color: [1, 0, 0] },
+    });
+    const doc = createTranslationDocument(inputPath, new Map([[2, [original]]]), 'en', 'zh-CN');
+    saveTranslationDocument(documentPath, doc);
+
+    const loaded = loadTranslationDocument(documentPath);
+    expect(loaded.version).toBe(TRANSLATION_DOCUMENT_VERSION);
+    expect(loaded.source.fileName).toBe('paper.pdf');
+    expect(loaded.pages[0].page).toBe(3);
+    expect(documentToPageRegions(loaded).get(2)).toEqual([original]);
+  });
+
+  it('accept a hand-edited translation', () => {
+    writeEdited((r) => { r.translatedText = '大家好'; });
+    expect(loadTranslationDocument(documentPath).pages[0].regions[0].translatedText).toBe('大家好');
+  });
+
+  it('reject files that are not JSON', () => {
+    fs.writeFileSync(documentPath, '{ not json');
+    expect(() => loadTranslationDocument(documentPath)).toThrow(/Cannot read translation document/);
+  });
+
+  it('reject a newer version', () => {
+    fs.writeFileSync(documentPath, JSON.stringify({ version: TRANSLATION_DOCUMENT_VERSION + 1, pages: [] }));
+    expect(() => loadTranslationDocument(documentPath)).toThrow(/newer than supported/);
+  });
+
+  it('reject a document without pages', () => {
+    fs.writeFileSync(documentPath, JSON.stringify({ version: TRANSLATION_DOCUMENT_VERSION }));
+    expect(() => loadTranslationDocument(documentPath)).toThrow(/has no pages/);
+  });
+
+  it.each<[string, (r: any) => void, RegExp]>([
+    ['missing translation', (r) => { delete r.translatedText; }, /Missing translatedText \(page 1, region 0\)/],
+    ['bad box', (r) => { r.pdfBBox = { x: 0, y: 0 }; }, /Invalid pdfBBox/],
+    ['bad layout box', (r) => { r.layoutBox = {}; }, /Invalid layoutBox/],
+    ['bad text blocks', (r) => { r.textBlocks = null; }, /Invalid textBlocks/],
+    ['colour out of range', (r) => { r.style = { bold: false, italic: false, color: [2, 0, 0] }; }, /Invalid style/],
+    ['odd rotation', (r) => { r.rotation = 45; }, /Invalid rotation/],
+    ['bad formula', (r) => { r.formulas = [{ text: 'x' }]; }, /Invalid formulas/],
+    ['bad cell box', (r) => { r.cellBBox = 'all'; }, /Invalid cellBBox/],
+    ['bad paragraph', (r) => { r.paragraphs = [{ marker: 1, firstIndent: 0, indent: 0, spaceBefore: 0 }]; }, /Invalid paragraphs/],
+  ])('point at the region with a %s', (_name, edit, message) => {
+    writeEdited(edit);
+    expect(() => loadTranslationDocument(documentPath)).toThrow(message);
+  });
+});
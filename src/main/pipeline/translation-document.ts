@@ -0,0 +1,214 @@
+/**
+ * Intermediate translation document: every translated region of a job as
+ * versioned JSON, so translations can be reviewed or edited by hand and then
+ * typeset without re-running render, detect and translate.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { BBox, FormulaSpan, LayoutBox, ParagraphLayout, TextBlock, TextStyle, TranslatedRegion } from './types';
+
+/** Bump when the document layout changes incompatibly */
+export const TRANSLATION_DOCUMENT_VERSION = 1;
+
+export interface DocumentRegion {
+  layoutBox: LayoutBox;
+  /** Bounding box in page coordinates (points, bottom-left origin, as displayed) */
+  pdfBBox: BBox;
+  /** Original text blocks; the writer covers these and sizes text from them */
+  textBlocks: TextBlock[];
+  sourceLanguage?: string;
+  /** Bold, italic and colour the translation is drawn in */
+  style?: TextStyle;
+  /** Direction of the text, degrees counter-clockwise: 0, 90, 180 or 270 */
+  rotation?: number;
+  /** The source text is written vertically */
+  vertical?: boolean;
+  sourceText: string;
+  /** Edit this to change what is written to the PDF; {v0}, {v1}, ... stand for `formulas` */
+  translatedText: string;
+  /** Inline formulas, copied from the original page where their placeholders appear */
+  formulas?: FormulaSpan[];
+  /** For a table cell: the area the translation may fill, page coordinates */
+  cellBBox?: BBox;
+  /** Indents, list markers and spacing of the paragraphs, one per line of translatedText */
+  paragraphs?: ParagraphLayout[];
+}
+
+export interface DocumentPage {
+  /** 1-based page number */
+  page: number;
+  regions: DocumentRegion[];
+}
+
+export interface TranslationDocument {
+  version: number;
+  source: {
+    fileName: string;
+    /** sha256 of the input PDF; typesetting refuses a different file */
+    sha256: string;
+  };
+  sourceLanguage: string;
+  targetLanguage: string;
+  createdAt: string;
+  pages: DocumentPage[];
+}
+
+export function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Build a document from the pipeline's per-page results.
+ *
+ * @param pageRegions - Map of page index (0-based) to translated regions
+ */
+export function createTranslationDocument(
+  inputPath: string,
+  pageRegions: Map<number, TranslatedRegion[]>,
+  sourceLanguage: string,
+  targetLanguage: string
+): TranslationDocument {
+  const pages = [...pageRegions.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([pageIndex, regions]) => ({
+      page: pageIndex + 1,
+      regions: regions.map((region) => ({
+        layoutBox: region.layoutBox,
+        pdfBBox: region.pdfBBox,
+        textBlocks: region.textBlocks,
+        sourceLanguage: region.sourceLanguage,
+        style: region.style,
+        rotation: region.rotation,
+        vertical: region.vertical,
+        sourceText: region.fullText,
+        translatedText: region.translatedText,
+        formulas: region.formulas,
+        cellBBox: region.cellBBox,
+        paragraphs: region.paragraphs,
+      })),
+    }));
+
+  return {
+    version: TRANSLATION_DOCUMENT_VERSION,
+    source: {
+      fileName: path.basename(inputPath),
+      sha256: hashFile(inputPath),
+    },
+    sourceLanguage,
+    targetLanguage,
+    createdAt: new Date().toISOString(),
+    pages,
+  };
+}
+
+export function saveTranslationDocument(filePath: string, doc: TranslationDocument): void {
+  fs.writeFileSync(filePath, JSON.stringify(doc, null, 2));
+}
+
+/**
+ * Read and validate a document. Throws with a message that points at the
+ * offending entry, since these files are meant to be edited by hand.
+ */
+export function loadTranslationDocument(filePath: string): TranslationDocument {
+  let doc: any;
+  try {
+    doc = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err: any) {
+    throw new Error(`Cannot read translation document: ${err.message}`);
+  }
+
+  if (!doc || typeof doc !== 'object' || typeof doc.version !== 'number') {
+    throw new Error('Not a translation document (missing version)');
+  }
+  if (doc.version > TRANSLATION_DOCUMENT_VERSION) {
+    throw new Error(`Translation document version ${doc.version} is newer than supported (${TRANSLATION_DOCUMENT_VERSION})`);
+  }
+  if (!Array.isArray(doc.pages)) {
+    throw new Error('Translation document has no pages');
+  }
+
+  doc.pages.forEach((page: any, i: number) => {
+    if (!Number.isInteger(page?.page) || page.page < 1 || !Array.isArray(page.regions)) {
+      throw new Error(`Invalid page entry at index ${i}`);
+    }
+    page.regions.forEach((region: any, j: number) => {
+      const where = `page ${page.page}, region ${j}`;
+      if (typeof region?.translatedText !== 'string') {
+        throw new Error(`Missing translatedText (${where})`);
+      }
+      if (!isBBox(region.pdfBBox)) {
+        throw new Error(`Invalid pdfBBox (${where})`);
+      }
+      if (!region.layoutBox || typeof region.layoutBox.className !== 'string') {
+        throw new Error(`Invalid layoutBox (${where})`);
+      }
+      if (!Array.isArray(region.textBlocks)) {
+        throw new Error(`Invalid textBlocks (${where})`);
+      }
+      if (region.style !== undefined && !isStyle(region.style)) {
+        throw new Error(`Invalid style (${where}): expected { bold, italic, color?: [r, g, b] } with components 0-1`);
+      }
+      if (region.rotation !== undefined && ![0, 90, 180, 270].includes(region.rotation)) {
+        throw new Error(`Invalid rotation (${where}): expected 0, 90, 180 or 270`);
+      }
+      if (region.formulas !== undefined && !(Array.isArray(region.formulas) && region.formulas.every(isFormula))) {
+        throw new Error(`Invalid formulas (${where}): expected [{ text, bbox, fontSize, baselineOffset }]`);
+      }
+      if (region.cellBBox !== undefined && !isBBox(region.cellBBox)) {
+        throw new Error(`Invalid cellBBox (${where})`);
+      }
+      if (region.paragraphs !== undefined && !(Array.isArray(region.paragraphs) && region.paragraphs.every(isParagraph))) {
+        throw new Error(`Invalid paragraphs (${where}): expected [{ marker?, firstIndent, indent, spaceBefore }]`);
+      }
+    });
+  });
+
+  return doc as TranslationDocument;
+}
+
+/**
+ * Convert a document back into the writer's input.
+ */
+export function documentToPageRegions(doc: TranslationDocument): Map<number, TranslatedRegion[]> {
+  const pageRegions = new Map<number, TranslatedRegion[]>();
+  for (const page of doc.pages) {
+    if (page.regions.length === 0) continue;
+    pageRegions.set(page.page - 1, page.regions.map((region) => ({
+      layoutBox: region.layoutBox,
+      textBlocks: region.textBlocks,
+      fullText: region.sourceText ?? '',
+      pdfBBox: region.pdfBBox,
+      sourceLanguage: region.sourceLanguage,
+      style: region.style,
+      rotation: region.rotation,
+      vertical: region.vertical,
+      translatedText: region.translatedText,
+      formulas: region.formulas,
+      cellBBox: region.cellBBox,
+      paragraphs: region.paragraphs,
+    })));
+  }
+  return pageRegions;
+}
+
+function isBBox(value: any): value is BBox {
+  return !!value && ['x', 'y', 'width', 'height'].every((k) => typeof value[k] === 'number');
+}
+
+function isFormula(value: any): value is FormulaSpan {
+  return !!value && typeof value.text === 'string' && isBBox(value.bbox) &&
+    typeof value.fontSize === 'number' && typeof value.baselineOffset === 'number';
+}
+
+function isParagraph(value: any): value is ParagraphLayout {
+  return !!value && (value.marker === undefined || typeof value.marker === 'string') &&
+    ['firstIndent', 'indent', 'spaceBefore'].every((k) => typeof value[k] === 'number');
+}
+
+function isStyle(value: any): value is TextStyle {
+  if (!value || typeof value.bold !== 'boolean' || typeof value.italic !== 'boolean') return false;
+  const { color } = value;
+  return color === undefined ||
+    (Array.isArray(color) && color.length === 3 && color.every((c: any) => typeof c === 'number' && c >= 0 && c <= 1));
+}
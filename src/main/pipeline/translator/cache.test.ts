@@ -0,0 +1,133 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CachedTranslator, cacheScope, TranslationCache } from './cache';
+import { Translator } from './index';
+import { DEFAULT_SETTINGS } from '../types';
+
+let tempDir: string;
+let cachePath: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf2zh-test-'));
+  cachePath = path.join(tempDir, 'translation-cache.jsonl');
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/** Upper-cases texts, failing those listed in `failing`; records what it was asked */
+class FakeTranslator implements Translator {
+  requests: string[][] = [];
+  failing = new Set<string>();
+
+  async translate(text: string): Promise<string> {
+    return text.toUpperCase();
+  }
+
+  async translateBatch(texts: string[]): Promise<(string | Error)[]> {
+    this.requests.push(texts);
+    return texts.map((text) => (this.failing.has(text) ? new Error(`failed: ${text}`) : text.toUpperCase()));
+  }
+}
+
+describe('TranslationCache', () => {
+  it('returns what was stored', () => {
+    const cache = new TranslationCache(cachePath);
+    cache.setMany([{ key: 'a', value: 'A' }]);
+    expect(cache.get('a')).toBe('A');
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('loads the entries another instance wrote', () => {
+    new TranslationCache(cachePath).setMany([{ key: 'a', value: 'A' }, { key: 'b', value: 'B' }]);
+    const cache = new TranslationCache(cachePath);
+    expect(cache.get('b')).toBe('B');
+    expect(cache.info().entries).toBe(2);
+  });
+
+  it('skips a line cut short by an interrupted write', () => {
+    fs.writeFileSync(cachePath, '{"k":"a","v":"A"}\n{"k":"b","v":');
+    const cache = new TranslationCache(cachePath);
+    expect(cache.get('a')).toBe('A');
+    expect(cache.info().entries).toBe(1);
+  });
+
+  it('appends only entries that changed', () => {
+    const cache = new TranslationCache(cachePath);
+    cache.setMany([{ key: 'a', value: 'A' }]);
+    cache.setMany([{ key: 'a', value: 'A' }]);
+    expect(fs.readFileSync(cachePath, 'utf-8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('forgets everything when cleared', () => {
+    const cache = new TranslationCache(cachePath);
+    cache.setMany([{ key: 'a', value: 'A' }]);
+    cache.clear();
+    expect(cache.get('a')).toBeUndefined();
+    expect(fs.existsSync(cachePath)).toBe(false);
+    expect(cache.info()).toEqual({ entries: 0, bytes: 0 });
+  });
+
+  it('keys texts by scope and languages', () => {
+    const key = TranslationCache.key('google', 'text', 'en', 'zh-CN');
+    expect(TranslationCache.key('google', 'text', 'en', 'zh-CN')).toBe(key);
+    expect(TranslationCache.key('google', 'text', 'en', 'ja')).not.toBe(key);
+    expect(TranslationCache.key('llm:x', 'text', 'en', 'zh-CN')).not.toBe(key);
+  });
+});
+
+describe('cacheScope', () => {
+  it('is shared by all Google Translate settings', () => {
+    expect(cacheScope({ ...DEFAULT_SETTINGS, translatorType: 'google' }, 'prompt')).toBe('google');
+  });
+
+  it('changes with the LLM model and prompt', () => {
+    const settings = { ...DEFAULT_SETTINGS, translatorType: 'llm' as const };
+    const scope = cacheScope(settings, 'prompt');
+    expect(cacheScope(settings, 'prompt')).toBe(scope);
+    expect(cacheScope(settings, 'other prompt')).not.toBe(scope);
+    expect(cacheScope({ ...settings, llmModel: 'other-model' }, 'prompt')).not.toBe(scope);
+  });
+});
+
+describe('CachedTranslator', () => {
+  it('only sends texts that are not cached yet', async () => {
+    const inner = new FakeTranslator();
+    const translator = new CachedTranslator(inner, new TranslationCache(cachePath), 'scope');
+    expect(await translator.translateBatch(['one', 'two'], 'en', 'zh-CN')).toEqual(['ONE', 'TWO']);
+    expect(await translator.translateBatch(['two', 'three'], 'en', 'zh-CN')).toEqual(['TWO', 'THREE']);
+    expect(inner.requests).toEqual([['one', 'two'], ['three']]);
+    expect(translator.getUsage().cacheHits).toBe(1);
+  });
+
+  it('keeps the translations of a batch in which some texts failed', async () => {
+    const inner = new FakeTranslator();
+    inner.failing.add('two');
+    const translator = new CachedTranslator(inner, new TranslationCache(cachePath), 'scope');
+    const results = await translator.translateBatch(['one', 'two'], 'en', 'zh-CN');
+    expect(results[0]).toBe('ONE');
+    expect(results[1]).toBeInstanceOf(Error);
+
+    inner.failing.clear();
+    expect(await translator.translateBatch(['one', 'two'], 'en', 'zh-CN')).toEqual(['ONE', 'TWO']);
+    expect(inner.requests[1]).toEqual(['two']);
+  });
+
+  it('does not cache a translation that echoes the source', async () => {
+    const inner = new FakeTranslator();
+    const translator = new CachedTranslator(inner, new TranslationCache(cachePath), 'scope');
+    await translator.translateBatch(['123'], 'en', 'zh-CN');
+    await translator.translateBatch(['123'], 'en', 'zh-CN');
+    expect(inner.requests).toHaveLength(2);
+  });
+
+  it('throws the error of a failed single text', async () => {
+    const inner = new FakeTranslator();
+    inner.failing.add('one');
+    const translator = new CachedTranslator(inner, new TranslationCache(cachePath), 'scope');
+    await expect(translator.translate('one', 'en', 'zh-CN')).rejects.toThrow('failed: one');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Persistent translation memory shared by all translators.
+ * Entries are appended to a JSON-lines file and loaded into memory on first use.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Translator, TranslatorUsage } from './index';
+import { AppSettings } from '../types';
+
+export interface TranslationCacheInfo {
+  entries: number;
+  bytes: number;
+}
+
+interface CacheRecord {
+  k: string;
+  v: string;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Identify the translator configuration a cached translation belongs to.
+ * Changing the translator, model or prompt yields a different scope.
+ */
+export function cacheScope(settings: AppSettings, customPrompt?: string): string {
+  if (settings.translatorType === 'google') {
+    return 'google';
+  }
+  const prompt = customPrompt || '';
+  return `llm:${settings.llmProvider}/${settings.llmModel}:${sha256(prompt).slice(0, 16)}`;
+}
+
+export class TranslationCache {
+  private filePath: string;
+  private entries: Map<string, string> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  static key(scope: string, text: string, from: string, to: string): string {
+    return sha256(JSON.stringify([scope, from, to, text]));
+  }
+
+  private load(): Map<string, string> {
+    if (this.entries) return this.entries;
+    this.entries = new Map();
+    let data = '';
+    try {
+      data = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return this.entries;
+    }
+    for (const line of data.split('\n')) {
+      if (!line) continue;
+      try {
+        const record = JSON.parse(line) as CacheRecord;
+        if (typeof record.k === 'string' && typeof record.v === 'string') {
+          this.entries.set(record.k, record.v);
+        }
+      } catch {
+        // Skip lines truncated by an interrupted write
+      }
+    }
+    return this.entries;
+  }
+
+  get(key: string): string | undefined {
+    return this.load().get(key);
+  }
+
+  /**
+   * Store several translations with a single append to disk.
+   */
+  setMany(records: { key: string; value: string }[]): void {
+    const entries = this.load();
+    const lines: string[] = [];
+    for (const { key, value } of records) {
+      if (entries.get(key) === value) continue;
+      entries.set(key, value);
+      lines.push(JSON.stringify({ k: key, v: value } as CacheRecord));
+    }
+    if (lines.length === 0) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, lines.join('\n') + '\n');
+    } catch (err) {
+      console.warn('Failed to write translation cache:', err);
+    }
+  }
+
+  info(): TranslationCacheInfo {
+    let bytes = 0;
+    try {
+      bytes = fs.statSync(this.filePath).size;
+    } catch {
+      // No cache file yet
+    }
+    return { entries: this.load().size, bytes };
+  }
+
+  clear(): void {
+    this.entries = new Map();
+    fs.rmSync(this.filePath, { force: true });
+  }
+}
+
+/**
+ * Translator decorator that serves repeated texts from the cache and only
+ * forwards misses to the wrapped translator.
+ */
+export class CachedTranslator implements Translator {
+  private inner: Translator;
+  private cache: TranslationCache;
+  private scope: string;
+  private cacheHits = 0;
+
+  constructor(inner: Translator, cache: TranslationCache, scope: string) {
+    this.inner = inner;
+    this.cache = cache;
+    this.scope = scope;
+  }
+
+  getUsage(): TranslatorUsage {
+    const usage = this.inner.getUsage?.() ?? { inputTokens: 0, outputTokens: 0, totalCost: 0, cacheHits: 0 };
+    return { ...usage, cacheHits: this.cacheHits };
+  }
+
+  async translate(text: string, from: string, to: string, signal?: AbortSignal): Promise<string> {
+    const [result] = await this.translateBatch([text], from, to, signal);
+    if (result instanceof Error) throw result;
+    return result;
+  }
+
+  async translateBatch(texts: string[], from: string, to: string, signal?: AbortSignal): Promise<(string | Error)[]> {
+    const results: (string | Error)[] = new Array(texts.length);
+    const missIndices: number[] = [];
+    const keys = texts.map((text) => TranslationCache.key(this.scope, text, from, to));
+
+    keys.forEach((key, i) => {
+      const cached = this.cache.get(key);
+      if (cached !== undefined) {
+        results[i] = cached;
+        this.cacheHits++;
+      } else {
+        missIndices.push(i);
+      }
+    });
+
+    if (missIndices.length > 0) {
+      const translated = await this.inner.translateBatch(missIndices.map((i) => texts[i]), from, to, signal);
+      const records: { key: string; value: string }[] = [];
+      missIndices.forEach((textIndex, i) => {
+        const value = translated[i];
+        results[textIndex] = value;
+        // Failures are left for the caller to retry. Translators echo the source
+        // on empty responses; don't persist those either
+        if (typeof value === 'string' && value.trim() !== '' && value !== texts[textIndex]) {
+          records.push({ key: keys[textIndex], value });
+        }
+      });
+      this.cache.setMany(records);
+    }
+
+    return results;
+  }
+}
@@ -1,30 +1,39 @@
 /**
  * Google Translate (free) translator using @vitalets/google-translate-api.
  */
-import { Translator } from './index';
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+import { Translator, toError } from './index';
+import { delay, throwIfAborted } from '../abort';
 
 export class GoogleTranslator implements Translator {
-  async translate(text: string, from: string, to: string): Promise<string> {
+  async translate(text: string, from: string, to: string, signal?: AbortSignal): Promise<string> {
     // Dynamic import to handle ESM module
     const { translate } = await import('@vitalets/google-translate-api');
-    const result = await translate(text, { from, to });
-    return result.text;
+    throwIfAborted(signal);
+    try {
+      const result = await translate(text, { from, to, fetchOptions: { signal } });
+      return result.text;
+    } catch (err) {
+      throwIfAborted(signal);
+      throw err;
+    }
   }
 
   async translateBatch(
     texts: string[],
     from: string,
-    to: string
-  ): Promise<string[]> {
-    const results: string[] = [];
+    to: string,
+    signal?: AbortSignal
+  ): Promise<(string | Error)[]> {
+    const results: (string | Error)[] = [];
     for (const text of texts) {
-      results.push(await this.translate(text, from, to));
+      try {
+        results.push(await this.translate(text, from, to, signal));
+      } catch (err) {
+        throwIfAborted(signal);
+        results.push(toError(err));
+      }
       // Rate limiting delay
-      await delay(100);
+      await delay(100, signal);
     }
     return results;
   }
@@ -2,25 +2,48 @@
  * Translator interface and factory.
  */
 import { AppSettings } from '../types';
+import type { TranslationCache } from './cache';
 
 export interface TranslatorUsage {
   inputTokens: number;
   outputTokens: number;
   totalCost: number;
+  /** Texts served from the translation cache instead of the translator */
+  cacheHits: number;
 }
 
 export interface Translator {
-  translate(text: string, from: string, to: string): Promise<string>;
-  translateBatch(texts: string[], from: string, to: string): Promise<string[]>;
+  /** Requests in flight are dropped when `signal` is aborted */
+  translate(text: string, from: string, to: string, signal?: AbortSignal): Promise<string>;
+  /**
+   * Translate each text on its own: a failed text yields its Error in place of
+   * the translation and doesn't stop the others. Rejects only when aborted.
+   */
+  translateBatch(texts: string[], from: string, to: string, signal?: AbortSignal): Promise<(string | Error)[]>;
   getUsage?(): TranslatorUsage;
 }
 
-export async function createTranslator(settings: AppSettings, customPrompt?: string): Promise<Translator> {
+export function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+export async function createTranslator(
+  settings: AppSettings,
+  customPrompt?: string,
+  cache?: TranslationCache
+): Promise<Translator> {
+  let translator: Translator;
   if (settings.translatorType === 'google') {
     const { GoogleTranslator } = await import('./google');
-    return new GoogleTranslator();
+    translator = new GoogleTranslator();
   } else {
     const { LLMTranslator } = await import('./llm');
-    return new LLMTranslator(settings, customPrompt);
+    translator = new LLMTranslator(settings, customPrompt);
+  }
+
+  if (cache) {
+    const { CachedTranslator, cacheScope } = await import('./cache');
+    return new CachedTranslator(translator, cache, cacheScope(settings, customPrompt));
   }
+  return translator;
 }
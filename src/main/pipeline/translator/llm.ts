@@ -2,12 +2,14 @@
  * LLM-based translator using pi-ai's unified API.
  */
 import { getModel, completeSimple } from '@mariozechner/pi-ai';
-import { Translator } from './index';
+import { Translator, toError } from './index';
 import { AppSettings } from '../types';
+import { throwIfAborted } from '../abort';
+import { hasPlaceholders } from '../formula';
 
 const CONCURRENCY_LIMIT = 5;
 
-const DEFAULT_SYSTEM_PROMPT = `You are a professional translator. Translate the following text accurately and naturally. Output only the translated text, nothing else. Preserve any formatting, numbers, and special characters.`;
+export const DEFAULT_SYSTEM_PROMPT = `You are a professional translator. Translate the following text accurately and naturally. Output only the translated text, nothing else. Preserve any formatting, numbers, and special characters.`;
 
 export class LLMTranslator implements Translator {
   private settings: AppSettings;
@@ -26,6 +28,7 @@ export class LLMTranslator implements Translator {
       inputTokens: this._inputTokens,
       outputTokens: this._outputTokens,
       totalCost: this._totalCost,
+      cacheHits: 0,
     };
   }
 
@@ -35,7 +38,8 @@ export class LLMTranslator implements Translator {
     this._totalCost = 0;
   }
 
-  async translate(text: string, from: string, to: string): Promise<string> {
+  async translate(text: string, from: string, to: string, signal?: AbortSignal): Promise<string> {
+    throwIfAborted(signal);
     const languageMap: Record<string, string> = {
       'zh-CN': 'Simplified Chinese',
       'zh-TW': 'Traditional Chinese',
@@ -44,6 +48,9 @@ export class LLMTranslator implements Translator {
       'fr': 'French',
       'de': 'German',
       'es': 'Spanish',
+      'it': 'Italian',
+      'pt': 'Portuguese',
+      'ru': 'Russian',
       'en': 'English',
     };
 
@@ -58,19 +65,24 @@ export class LLMTranslator implements Translator {
     }
 
     const systemPrompt = this.customPrompt || DEFAULT_SYSTEM_PROMPT;
+    // Also with a custom prompt: placeholders stand for formulas or protected text and must survive
+    const instructions = hasPlaceholders(text)
+      ? `Translate from ${sourceLang} to ${targetLang}. Copy placeholders such as {v0} unchanged; they stand for formulas or text that must not be translated.`
+      : `Translate from ${sourceLang} to ${targetLang}:`;
 
     const response = await completeSimple(model, {
       systemPrompt,
       messages: [
         {
           role: 'user' as const,
-          content: `Translate from ${sourceLang} to ${targetLang}:\n\n${text}`,
+          content: `${instructions}\n\n${text}`,
           timestamp: Date.now(),
         },
       ],
     }, {
       apiKey: this.settings.llmApiToken || undefined,
       temperature: 0.3,
+      signal,
     });
 
     if (response.usage) {
@@ -79,6 +91,15 @@ export class LLMTranslator implements Translator {
       this._totalCost += response.usage.cost?.total || 0;
     }
 
+    // pi-ai reports failures in the response instead of throwing
+    if (response.stopReason === 'aborted') {
+      throwIfAborted(signal);
+      throw new Error('Request was aborted');
+    }
+    if (response.stopReason === 'error') {
+      throw new Error(response.errorMessage || 'LLM request failed');
+    }
+
     const textBlock = response.content.find((c: any) => c.type === 'text');
     return (textBlock as any)?.text?.trim() || text;
   }
@@ -86,17 +107,22 @@ export class LLMTranslator implements Translator {
   async translateBatch(
     texts: string[],
     from: string,
-    to: string
-  ): Promise<string[]> {
-    this.resetUsage();
-    const results: string[] = new Array(texts.length);
+    to: string,
+    signal?: AbortSignal
+  ): Promise<(string | Error)[]> {
+    const results: (string | Error)[] = new Array(texts.length);
     const queue = texts.map((text, index) => ({ text, index }));
     let pos = 0;
 
     const worker = async () => {
       while (pos < queue.length) {
         const item = queue[pos++];
-        results[item.index] = await this.translate(item.text, from, to);
+        try {
+          results[item.index] = await this.translate(item.text, from, to, signal);
+        } catch (err) {
+          throwIfAborted(signal);
+          results[item.index] = toError(err);
+        }
       }
     };
 
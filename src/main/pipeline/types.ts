@@ -21,15 +21,44 @@ export type LayoutClass =
   | 'isolate_formula'
   | 'formula_caption';
 
+/** Layout class ID to name mapping */
+export const LAYOUT_CLASSES: LayoutClass[] = [
+  'title',
+  'plain_text',
+  'abandon',
+  'figure',
+  'figure_caption',
+  'table',
+  'table_caption',
+  'table_footnote',
+  'isolate_formula',
+  'formula_caption',
+];
+
+/** Detection thresholds for one layout class */
+export interface LayoutThreshold {
+  /** Minimum score for a detection of this class to be kept */
+  confidence: number;
+  /** Overlap (IoU) above which the weaker of two boxes of this class is suppressed (raw model output only) */
+  iou: number;
+}
+
+export type LayoutThresholds = Record<LayoutClass, LayoutThreshold>;
+
 /** A detected layout region from the ONNX model */
 export interface LayoutBox {
   bbox: BBox;
+  /** Index of className in LAYOUT_CLASSES (not the model's own class index) */
   classId: number;
   className: LayoutClass;
   confidence: number;
 }
 
-/** A text block extracted from pdfjs-dist */
+/**
+ * A text block extracted from pdfjs-dist. The box is axis-aligned in page
+ * coordinates (points, bottom-left origin, as the page is displayed; see
+ * page-geometry), however the text itself runs.
+ */
 export interface TextBlock {
   text: string;
   x: number;
@@ -38,6 +67,55 @@ export interface TextBlock {
   height: number;
   fontSize: number;
   fontName: string;
+  bold?: boolean;
+  italic?: boolean;
+  /** Fill colour as RGB components in 0-1; absent when it could not be determined */
+  color?: [number, number, number];
+  /** Direction the text runs in, degrees counter-clockwise in quarter turns; absent for 0 */
+  rotation?: number;
+  /** Set for vertical writing (top to bottom columns, as in vertical CJK text) */
+  vertical?: boolean;
+  /** Set in a math font, or made of math symbols (see formula.ts) */
+  formula?: boolean;
+}
+
+/**
+ * An inline formula cut out of a region's text. The text carries a
+ * placeholder ({v0}, {v1}, ... numbered within the text) in its place, so the
+ * translator leaves it alone, and the writer copies the original glyphs back.
+ */
+export interface FormulaSpan {
+  /** Source text of the formula, used where it can't be drawn from the original */
+  text: string;
+  /** Area of the formula's glyphs in page coordinates */
+  bbox: BBox;
+  /** Font size of the line the formula sits in; the copy is scaled with the translation's */
+  fontSize: number;
+  /** Bottom of bbox relative to the line's baseline, in points (negative below it) */
+  baselineOffset: number;
+}
+
+/**
+ * How one paragraph or list item of a region was set, so its translation can
+ * be laid out the same way. Indents are in points from the region's left
+ * edge, in the direction the text runs.
+ */
+export interface ParagraphLayout {
+  /** Bullet or number opening a list item ("•", "2.", "(a)"); not part of the text */
+  marker?: string;
+  /** Start of the first line (of the marker, for a list item) */
+  firstIndent: number;
+  /** Start of the following lines; for a list item, at least where the text after the marker starts */
+  indent: number;
+  /** Space above the paragraph beyond the usual line spacing, in ems */
+  spaceBefore: number;
+}
+
+/** Dominant style of a region's source text, reproduced in the output */
+export interface TextStyle {
+  bold: boolean;
+  italic: boolean;
+  color?: [number, number, number];
 }
 
 /** A matched region combining layout detection and text extraction */
@@ -45,57 +123,156 @@ export interface TranslatableRegion {
   layoutBox: LayoutBox;
   textBlocks: TextBlock[];
   fullText: string;
-  /** Bounding box in PDF coordinate space (bottom-left origin) */
+  /** Bounding box in page coordinates (points, bottom-left origin, as displayed) */
   pdfBBox: BBox;
+  /** Detected language of fullText when the source language is 'auto' */
+  sourceLanguage?: string;
+  style?: TextStyle;
+  /** Direction of the region's text, degrees counter-clockwise in quarter turns; absent for 0 */
+  rotation?: number;
+  /** The source text is written vertically */
+  vertical?: boolean;
+  /** Inline formulas cut out of fullText, which holds their placeholders */
+  formulas?: FormulaSpan[];
+  /**
+   * Layout of the paragraphs and list items of a region that has several (or
+   * a list item), one per line of fullText; translations keep those lines
+   */
+  paragraphs?: ParagraphLayout[];
+  /**
+   * For a table cell: the area the translation may fill, from the top left of
+   * the cell's text to the cell's far edges (page coordinates). pdfBBox still
+   * covers just the text, so rules and shading around it stay visible
+   */
+  cellBBox?: BBox;
+}
+
+/** A layout box that did not become a translatable region */
+export interface DroppedRegion {
+  layoutBox: LayoutBox;
+  reason: 'not-translatable' | 'no-text';
 }
 
 /** Translation result for a region */
 export interface TranslatedRegion extends TranslatableRegion {
+  /**
+   * Placeholders in the translation refer to `formulas`, which may have moved
+   * here from a neighbouring region of the same paragraph; fullText is then
+   * the plain source text
+   */
   translatedText: string;
 }
 
+/** A region that could not be translated and was left as original text */
+export interface PipelineWarning {
+  /** 1-based page number */
+  page: number;
+  /** Index of the region within the page's matched regions */
+  regionIndex: number;
+  className: LayoutClass;
+  /** Start of the source text, for identifying the region */
+  text: string;
+  message: string;
+}
+
+/** Pipeline stages that are timed separately */
+export type PipelineStage = 'render' | 'layout' | 'extract' | 'ocr' | 'match' | 'translate' | 'write';
+
+/** Milliseconds spent per stage, summed over all pages (pages overlap, so the sum can exceed wall time) */
+export type StageTimings = Record<PipelineStage, number>;
+
 /** Progress event sent from main to renderer */
 export interface ProgressEvent {
   stage: string;
   currentPage: number;
   totalPages: number;
   percent: number;
+  /** Regions translated, skipped or given up on so far */
+  regionsDone?: number;
+  /** Regions found so far; grows as pages are analysed */
+  regionsTotal?: number;
+  elapsedMs?: number;
+  /** Estimated time left, from the observed time per page; absent until a page has finished */
+  etaMs?: number;
+  pagesPerMinute?: number;
+  stageMs?: StageTimings;
+  /** Running LLM token and cost counter */
+  usage?: { inputTokens: number; outputTokens: number; totalCost: number };
 }
 
 /** Settings stored on disk */
 export interface AppSettings {
   translatorType: 'google' | 'llm';
+  /** Source language code, or 'auto' to detect it from the document */
+  sourceLanguage: string;
   targetLanguage: string;
   llmProvider: string;
   llmModel: string;
   llmApiToken: string;
   llmBaseUrl: string;
   customPrompt: string;
+  /** Worker threads for rendering and layout inference, split between parallel jobs; 0 = number of CPUs minus one */
+  workerThreads: number;
+  /** Also write a *_debug.pdf showing layout boxes, matched text and dropped regions */
+  debugOverlay: boolean;
+  /** Also export the translations as an editable JSON document next to the output */
+  exportJson: boolean;
+  /** How many translation jobs may run at the same time */
+  maxConcurrentJobs: number;
+  /** 'fast' skips the layout model and groups the text layer heuristically */
+  layoutMode: 'model' | 'fast';
+  /** Layout model from the registry (see layout-models.ts) */
+  layoutModelId: string;
+  /** Per-class confidence and NMS IoU thresholds for layout detection */
+  layoutThresholds: LayoutThresholds;
+  /** Split detected tables into cells and translate the text cells (needs the layout model) */
+  translateTables: boolean;
+  /** Keep URLs, DOIs, e-mail addresses, citation markers and code as they are */
+  protectBuiltins: boolean;
+  /** Regular expressions for further text that must not be translated (product names, terms) */
+  protectPatterns: string[];
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
   translatorType: 'google',
+  sourceLanguage: 'auto',
   targetLanguage: 'zh-CN',
   llmProvider: 'openai',
   llmModel: 'gpt-4o-mini',
   llmApiToken: '',
   llmBaseUrl: '',
   customPrompt: 'You are a professional translator. Translate the following text accurately and naturally. Output only the translated text, nothing else. Preserve any formatting, numbers, and special characters.',
+  workerThreads: 0,
+  debugOverlay: false,
+  exportJson: false,
+  maxConcurrentJobs: 1,
+  layoutMode: 'model',
+  layoutModelId: 'doclayout-yolo-docstructbench',
+  layoutThresholds: defaultLayoutThresholds(),
+  translateTables: false,
+  protectBuiltins: true,
+  protectPatterns: [],
 };
 
-/** Layout class ID to name mapping */
-export const LAYOUT_CLASSES: LayoutClass[] = [
-  'title',
-  'plain_text',
-  'abandon',
-  'figure',
-  'figure_caption',
-  'table',
-  'table_caption',
-  'table_footnote',
-  'isolate_formula',
-  'formula_caption',
-];
+function defaultLayoutThresholds(): LayoutThresholds {
+  const thresholds = {} as LayoutThresholds;
+  for (const className of LAYOUT_CLASSES) {
+    thresholds[className] = { confidence: 0.25, iou: 0.45 };
+  }
+  return thresholds;
+}
+
+/**
+ * Fill in classes missing from stored thresholds (settings files from older
+ * versions, or hand-edited ones) with the defaults.
+ */
+export function resolveLayoutThresholds(stored?: Partial<LayoutThresholds>): LayoutThresholds {
+  const thresholds = defaultLayoutThresholds();
+  for (const className of LAYOUT_CLASSES) {
+    thresholds[className] = { ...thresholds[className], ...stored?.[className] };
+  }
+  return thresholds;
+}
 
 /** Classes that contain translatable text */
 export const TRANSLATABLE_CLASSES: Set<LayoutClass> = new Set([
@@ -0,0 +1,88 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resolveWorkerCount, WorkerPool } from './worker-pool';
+
+/** Stands in for pipeline-worker.js: replies to a few test task types */
+const WORKER_SOURCE = `
+const { parentPort, threadId } = require('node:worker_threads');
+parentPort.on('message', ({ id, type, payload }) => {
+  if (type === 'echo') parentPort.postMessage({ id, result: payload });
+  else if (type === 'fail') parentPort.postMessage({ id, error: payload });
+  else if (type === 'thread') parentPort.postMessage({ id, result: threadId });
+  else if (type === 'slow') setTimeout(() => parentPort.postMessage({ id, result: payload }), 50);
+  else if (type === 'exit') process.exit(3);
+});
+`;
+
+let tempDir: string;
+let scriptPath: string;
+let pool: WorkerPool | null = null;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf2zh-test-'));
+  scriptPath = path.join(tempDir, 'worker.js');
+  fs.writeFileSync(scriptPath, WORKER_SOURCE);
+});
+
+afterEach(async () => {
+  await pool?.destroy();
+  pool = null;
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('WorkerPool', () => {
+  it('runs tasks on the workers and returns their results', async () => {
+    pool = new WorkerPool(scriptPath, 2);
+    const results = await Promise.all([1, 2, 3].map((n) => pool!.run<number>('echo', n)));
+    expect(results).toEqual([1, 2, 3]);
+  });
+
+  it('rejects with the error a worker reports', async () => {
+    pool = new WorkerPool(scriptPath, 1);
+    await expect(pool.run('fail', 'model not loaded')).rejects.toThrow('model not loaded');
+    expect(await pool.run('echo', 'next')).toBe('next');
+  });
+
+  it('broadcasts a task once to every worker', async () => {
+    pool = new WorkerPool(scriptPath, 3);
+    const threads = await pool.broadcast<number>('thread', null);
+    expect(new Set(threads).size).toBe(3);
+  });
+
+  it('fails the task of a worker that exits and replaces the worker', async () => {
+    pool = new WorkerPool(scriptPath, 1);
+    await expect(pool.run('exit', null)).rejects.toThrow('Worker exited with code 3');
+    expect(pool.size).toBe(1);
+    expect(await pool.run('echo', 'still running')).toBe('still running');
+  });
+
+  it('rejects running and queued tasks when destroyed', async () => {
+    pool = new WorkerPool(scriptPath, 1);
+    const running = expect(pool.run('slow', 1)).rejects.toThrow('Worker pool was shut down');
+    const queued = expect(pool.run('echo', 2)).rejects.toThrow('Worker pool was shut down');
+    await pool.destroy();
+    await running;
+    await queued;
+  });
+});
+
+describe('resolveWorkerCount', () => {
+  it('uses the configured count', () => {
+    expect(resolveWorkerCount(4)).toBe(4);
+  });
+
+  it('defaults to one less than the CPU count, at least one', () => {
+    expect(resolveWorkerCount(0)).toBe(Math.max(1, os.cpus().length - 1));
+  });
+
+  it('shares the count between jobs running side by side', () => {
+    expect(resolveWorkerCount(6, 2)).toBe(3);
+    expect(resolveWorkerCount(6, 4)).toBe(1);
+  });
+
+  it('never goes below one worker', () => {
+    expect(resolveWorkerCount(1, 3)).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Fixed-size pool of worker threads running pipeline-worker.ts.
+ * Tasks are plain { type, payload } messages; each worker handles one task at a time.
+ */
+import os from 'node:os';
+import { Worker } from 'node:worker_threads';
+
+export interface WorkerTask {
+  id: number;
+  type: string;
+  payload: unknown;
+}
+
+export interface WorkerReply {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingTask {
+  task: WorkerTask;
+  resolve: (value: any) => void;
+  reject: (reason: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: PendingTask | null;
+  /** Tasks that must run on this particular worker (see broadcast) */
+  pinned: PendingTask[];
+}
+
+/**
+ * Resolve the configured worker count; 0 means "number of CPUs minus one".
+ * Jobs running side by side each get an equal share of that count.
+ */
+export function resolveWorkerCount(configured: number, sharedBy = 1): number {
+  const total = configured && configured > 0 ? Math.floor(configured) : os.cpus().length - 1;
+  return Math.max(1, Math.floor(total / Math.max(1, sharedBy)));
+}
+
+export class WorkerPool {
+  private scriptPath: string;
+  private workers: PoolWorker[] = [];
+  private queue: PendingTask[] = [];
+  private nextId = 1;
+  private destroyed = false;
+
+  constructor(scriptPath: string, size: number) {
+    this.scriptPath = scriptPath;
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Run a task on the next free worker.
+   */
+  run<T>(type: string, payload: unknown): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ task: this.createTask(type, payload), resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Run the same task once on every worker, e.g. to warm up a model.
+   */
+  broadcast<T>(type: string, payload: unknown): Promise<T[]> {
+    return Promise.all(this.workers.map((pw) => new Promise<T>((resolve, reject) => {
+      pw.pinned.push({ task: this.createTask(type, payload), resolve, reject });
+      this.dispatch();
+    })));
+  }
+
+  /**
+   * Terminate all workers and reject tasks that have not finished.
+   */
+  async destroy(): Promise<void> {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    const error = new Error('Worker pool was shut down');
+    for (const pending of this.queue.splice(0)) pending.reject(error);
+    for (const pw of this.workers) {
+      for (const pending of pw.pinned.splice(0)) pending.reject(error);
+      pw.current?.reject(error);
+      pw.current = null;
+    }
+    await Promise.all(this.workers.map((pw) => pw.worker.terminate()));
+  }
+
+  private createTask(type: string, payload: unknown): WorkerTask {
+    return { id: this.nextId++, type, payload };
+  }
+
+  private spawn(): PoolWorker {
+    const pw: PoolWorker = { worker: new Worker(this.scriptPath), current: null, pinned: [] };
+
+    pw.worker.on('message', (reply: WorkerReply) => {
+      const pending = pw.current;
+      if (!pending || pending.task.id !== reply.id) return;
+      pw.current = null;
+      if (reply.error !== undefined) {
+        pending.reject(new Error(reply.error));
+      } else {
+        pending.resolve(reply.result);
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker fails its task and is replaced so the pool keeps its size.
+    // Workers that die without an 'error' (process.exit, out of memory) only emit 'exit'.
+    pw.worker.on('error', (err) => this.replace(pw, err));
+    pw.worker.on('exit', (code) => this.replace(pw, new Error(`Worker exited with code ${code}`)));
+
+    return pw;
+  }
+
+  /**
+   * Fail the task of a dead worker and put a new worker in its place. Runs once
+   * per worker, for whichever of 'error' and 'exit' comes first.
+   */
+  private replace(pw: PoolWorker, err: Error): void {
+    const index = this.workers.indexOf(pw);
+    if (index === -1) return;
+    const pending = pw.current;
+    pw.current = null;
+    pending?.reject(err);
+    if (this.destroyed) return;
+    const replacement = this.spawn();
+    replacement.pinned = pw.pinned;
+    this.workers[index] = replacement;
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    if (this.destroyed) return;
+    for (const pw of this.workers) {
+      if (pw.current) continue;
+      const next = pw.pinned.shift() ?? this.queue.shift();
+      if (!next) continue;
+      pw.current = next;
+      pw.worker.postMessage(next.task);
+    }
+  }
+}
@@ -3,12 +3,67 @@
  */
 import { contextBridge, ipcRenderer, webUtils } from 'electron';
 
+interface JobInfo {
+  id: string;
+  inputPath: string;
+  state: 'queued' | 'running' | 'paused' | 'cancelled' | 'done' | 'failed';
+  progress?: {
+    stage: string;
+    currentPage: number;
+    totalPages: number;
+    percent: number;
+    regionsDone?: number;
+    regionsTotal?: number;
+    elapsedMs?: number;
+    etaMs?: number;
+    pagesPerMinute?: number;
+    stageMs?: Record<string, number>;
+    usage?: { inputTokens: number; outputTokens: number; totalCost: number };
+  };
+  result?: {
+    outputPath: string;
+    debugOutputPath?: string;
+    jsonOutputPath?: string;
+    usage?: { inputTokens: number; outputTokens: number; totalCost: number; cacheHits: number };
+    warnings: { page: number; regionIndex: number; className: string; text: string; message: string }[];
+    timings: Record<string, number>;
+    elapsedMs: number;
+    layoutFallback?: string;
+    ocrUnavailable?: string;
+    droppedText: { page: number; regionIndex: number; className: string; text: string; message: string }[];
+  };
+  error?: string;
+}
+
+interface LayoutModelInfo {
+  id: string;
+  name: string;
+  file: string;
+  /** Bundled with the app; cannot be removed */
+  builtin?: boolean;
+}
+
+interface CostEstimate {
+  pages: number;
+  regions: number;
+  characters: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null;
+  model?: string;
+}
+
 export interface ElectronAPI {
   getSettings: () => Promise<any>;
   saveSettings: (settings: any) => Promise<boolean>;
   openFileDialog: () => Promise<string[] | null>;
-  translatePdf: (inputPath: string, selectedPages?: number[], customPrompt?: string) => Promise<{ success: boolean; outputPath?: string; error?: string; usage?: { inputTokens: number; outputTokens: number; totalCost: number } }>;
-  cancelTranslation: () => void;
+  startJob: (inputPath: string, selectedPages?: number[], customPrompt?: string, forceOcr?: boolean) => Promise<JobInfo>;
+  listJobs: () => Promise<JobInfo[]>;
+  pauseJob: (jobId: string) => Promise<boolean>;
+  resumeJob: (jobId: string) => Promise<boolean>;
+  cancelJob: (jobId: string) => Promise<boolean>;
+  clearFinishedJobs: () => Promise<boolean>;
+  onJobUpdate: (callback: (event: any, job: JobInfo) => void) => () => void;
   getPdfThumbnails: (filePath: string) => Promise<{ pageCount: number; thumbnails: string[] }>;
   openFile: (filePath: string) => Promise<string>;
   openFolder: (filePath: string) => Promise<void>;
@@ -18,14 +73,36 @@ export interface ElectronAPI {
   getAppVersion: () => Promise<string>;
   checkForUpdates: () => Promise<{ currentVersion: string; latestVersion: string; isOutdated: boolean; releaseUrl: string }>;
   openExternalUrl: (url: string) => Promise<void>;
+  getTranslationCacheInfo: () => Promise<{ entries: number; bytes: number }>;
+  clearTranslationCache: () => Promise<boolean>;
+  getResumeInfo: (inputPath: string, forceOcr?: boolean) => Promise<{ completedPages: number }>;
+  getOcrStatus: () => Promise<{ available: boolean; modelsDir: string }>;
+  openJsonDialog: () => Promise<string | null>;
+  listLayoutModels: () => Promise<LayoutModelInfo[]>;
+  importLayoutModel: () => Promise<{ success: boolean; model?: LayoutModelInfo; error?: string } | null>;
+  removeLayoutModel: (id: string) => Promise<boolean>;
+  estimatePdf: (inputPath: string, selectedPages?: number[], customPrompt?: string, forceOcr?: boolean) => Promise<{ success: boolean; estimate?: CostEstimate; error?: string; cancelled?: boolean }>;
+  cancelEstimate: (inputPath: string) => Promise<boolean>;
+  onEstimateProgress: (callback: (event: any, data: any) => void) => () => void;
+  typesetPdf: (inputPath: string, documentPath: string) => Promise<{ success: boolean; outputPath?: string; error?: string }>;
 }
 
 const api: ElectronAPI = {
   getSettings: () => ipcRenderer.invoke('get-settings'),
   saveSettings: (settings) => ipcRenderer.invoke('save-settings', settings),
   openFileDialog: () => ipcRenderer.invoke('open-file-dialog'),
-  translatePdf: (inputPath, selectedPages, customPrompt) => ipcRenderer.invoke('translate-pdf', inputPath, selectedPages, customPrompt),
-  cancelTranslation: () => ipcRenderer.send('cancel-translation'),
+  startJob: (inputPath, selectedPages, customPrompt, forceOcr) => ipcRenderer.invoke('start-job', inputPath, selectedPages, customPrompt, forceOcr),
+  listJobs: () => ipcRenderer.invoke('list-jobs'),
+  pauseJob: (jobId) => ipcRenderer.invoke('pause-job', jobId),
+  resumeJob: (jobId) => ipcRenderer.invoke('resume-job', jobId),
+  cancelJob: (jobId) => ipcRenderer.invoke('cancel-job', jobId),
+  clearFinishedJobs: () => ipcRenderer.invoke('clear-finished-jobs'),
+  onJobUpdate: (callback) => {
+    ipcRenderer.on('job-update', callback);
+    return () => {
+      ipcRenderer.removeListener('job-update', callback);
+    };
+  },
   getPdfThumbnails: (filePath) => ipcRenderer.invoke('get-pdf-thumbnails', filePath),
   openFile: (filePath) => ipcRenderer.invoke('open-file', filePath),
   openFolder: (filePath) => ipcRenderer.invoke('open-folder', filePath),
@@ -40,6 +117,23 @@ const api: ElectronAPI = {
   getAppVersion: () => ipcRenderer.invoke('get-app-version'),
   checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
   openExternalUrl: (url: string) => ipcRenderer.invoke('open-external-url', url),
+  getTranslationCacheInfo: () => ipcRenderer.invoke('get-translation-cache-info'),
+  clearTranslationCache: () => ipcRenderer.invoke('clear-translation-cache'),
+  getResumeInfo: (inputPath: string, forceOcr?: boolean) => ipcRenderer.invoke('get-resume-info', inputPath, forceOcr),
+  getOcrStatus: () => ipcRenderer.invoke('get-ocr-status'),
+  openJsonDialog: () => ipcRenderer.invoke('open-json-dialog'),
+  listLayoutModels: () => ipcRenderer.invoke('list-layout-models'),
+  importLayoutModel: () => ipcRenderer.invoke('import-layout-model'),
+  removeLayoutModel: (id) => ipcRenderer.invoke('remove-layout-model', id),
+  estimatePdf: (inputPath, selectedPages, customPrompt, forceOcr) => ipcRenderer.invoke('estimate-pdf', inputPath, selectedPages, customPrompt, forceOcr),
+  cancelEstimate: (inputPath) => ipcRenderer.invoke('cancel-estimate', inputPath),
+  onEstimateProgress: (callback) => {
+    ipcRenderer.on('estimate-progress', callback);
+    return () => {
+      ipcRenderer.removeListener('estimate-progress', callback);
+    };
+  },
+  typesetPdf: (inputPath: string, documentPath: string) => ipcRenderer.invoke('typeset-pdf', inputPath, documentPath),
 };
 
 contextBridge.exposeInMainWorld('electronAPI', api);
@@ -1,9 +1,83 @@
 /**
- * Progress bar component initialization.
- * The actual progress updates are handled in the main renderer index.ts
- * via the onProgress IPC listener.
+ * Progress bar component: stage, page counter, bar, and a details line with
+ * regions, throughput, ETA and the running LLM cost.
  */
+
+/** Progress event as sent by the main process (see ProgressEvent in pipeline/types.ts) */
+export interface ProgressData {
+  stage: string;
+  currentPage: number;
+  totalPages: number;
+  percent: number;
+  regionsDone?: number;
+  regionsTotal?: number;
+  elapsedMs?: number;
+  etaMs?: number;
+  pagesPerMinute?: number;
+  stageMs?: Record<string, number>;
+  usage?: { inputTokens: number; outputTokens: number; totalCost: number };
+}
+
 export function initProgressBar() {
-  // Progress bar is initialized in HTML; this is a placeholder
-  // for any future progress-specific initialization logic.
+  document.getElementById('progress-details')!.textContent = '';
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** "render 12s, layout 30s, ..." for the stages that took any time */
+export function formatStageTimings(stageMs: Record<string, number>): string {
+  return Object.entries(stageMs)
+    .filter(([, ms]) => ms > 0)
+    .map(([stage, ms]) => `${stage} ${formatDuration(ms)}`)
+    .join(', ');
+}
+
+function formatCount(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+/**
+ * Show a progress event.
+ * @param label - Stage text, e.g. prefixed with the file name
+ * @param extra - Appended to the page counter, e.g. the number of running jobs
+ */
+export function renderProgress(label: string, data?: ProgressData, extra?: string) {
+  document.getElementById('progress-section')!.style.display = 'block';
+  document.getElementById('progress-stage')!.textContent = label;
+
+  let pages = data && data.totalPages > 0 ? `Page ${data.currentPage} / ${data.totalPages}` : '';
+  if (extra) {
+    pages += `${pages ? ' · ' : ''}${extra}`;
+  }
+  document.getElementById('progress-pages')!.textContent = pages;
+  document.getElementById('progress-bar')!.style.width = `${data?.percent || 0}%`;
+
+  const details: string[] = [];
+  if (data?.regionsTotal) {
+    details.push(`${data.regionsDone ?? 0} / ${data.regionsTotal} regions`);
+  }
+  if (data?.pagesPerMinute) {
+    details.push(`${data.pagesPerMinute.toFixed(1)} pages/min`);
+  }
+  if (data?.elapsedMs !== undefined) {
+    details.push(`${formatDuration(data.elapsedMs)} elapsed`);
+  }
+  if (data?.etaMs !== undefined && data.percent < 100) {
+    details.push(`~${formatDuration(data.etaMs)} left`);
+  }
+  if (data?.usage && (data.usage.inputTokens > 0 || data.usage.outputTokens > 0)) {
+    let usage = `${formatCount(data.usage.inputTokens)} in / ${formatCount(data.usage.outputTokens)} out tokens`;
+    if (data.usage.totalCost > 0) usage += ` · $${data.usage.totalCost.toFixed(4)}`;
+    details.push(usage);
+  }
+
+  const detailsEl = document.getElementById('progress-details')!;
+  detailsEl.textContent = details.join(' · ');
+  detailsEl.title = data?.stageMs ? `Time per stage: ${formatStageTimings(data.stageMs)}` : '';
 }
@@ -2,16 +2,32 @@
  * Settings panel component: translator configuration UI.
  * Auto-saves on every change.
  */
-import { DEFAULT_SETTINGS } from '../../main/pipeline/types';
+import { DEFAULT_SETTINGS, LAYOUT_CLASSES, LayoutThresholds, resolveLayoutThresholds } from '../../main/pipeline/types';
 
 export function initSettingsPanel(api: Window['electronAPI']) {
   const translatorSelect = document.getElementById('translator-select') as HTMLSelectElement;
+  const sourceLang = document.getElementById('source-lang') as HTMLSelectElement;
   const targetLang = document.getElementById('target-lang') as HTMLSelectElement;
   const llmSettings = document.getElementById('llm-settings')!;
   const llmProvider = document.getElementById('llm-provider') as HTMLSelectElement;
   const llmModel = document.getElementById('llm-model') as HTMLSelectElement;
   const llmApiToken = document.getElementById('llm-api-token') as HTMLInputElement;
   const llmBaseUrl = document.getElementById('llm-base-url') as HTMLInputElement;
+  const workerThreads = document.getElementById('worker-threads') as HTMLInputElement;
+  const maxConcurrentJobs = document.getElementById('max-concurrent-jobs') as HTMLInputElement;
+  const debugOverlay = document.getElementById('debug-overlay') as HTMLInputElement;
+  const exportJson = document.getElementById('export-json') as HTMLInputElement;
+  const translateTables = document.getElementById('translate-tables') as HTMLInputElement;
+  const protectBuiltins = document.getElementById('protect-builtins') as HTMLInputElement;
+  const protectPatterns = document.getElementById('protect-patterns') as HTMLTextAreaElement;
+  const protectPatternsError = document.getElementById('protect-patterns-error')!;
+  const layoutThresholdRows = document.getElementById('layout-thresholds')!;
+  const layoutMode = document.getElementById('layout-mode') as HTMLSelectElement;
+  const layoutModelGroup = document.getElementById('layout-model-group')!;
+  const layoutModel = document.getElementById('layout-model') as HTMLSelectElement;
+  const layoutModelImportBtn = document.getElementById('layout-model-import-btn') as HTMLButtonElement;
+  const layoutModelRemoveBtn = document.getElementById('layout-model-remove-btn') as HTMLButtonElement;
+  const layoutModelError = document.getElementById('layout-model-error')!;
 
   // Custom Prompt Modal elements
   const customPromptBtn = document.getElementById('custom-prompt-btn')!;
@@ -21,19 +37,87 @@ export function initSettingsPanel(api: Window['electronAPI']) {
   const promptCancelBtn = document.getElementById('prompt-cancel-btn')!;
   const promptSaveBtn = document.getElementById('prompt-save-btn')!;
 
+  // Translation cache elements
+  const cacheClearBtn = document.getElementById('cache-clear-btn')!;
+
   let savedCustomPrompt = DEFAULT_SETTINGS.customPrompt;
 
+  // One row of confidence/IoU inputs per layout class
+  const thresholdInputs = LAYOUT_CLASSES.map((className) => {
+    const row = document.createElement('tr');
+    const label = document.createElement('td');
+    label.textContent = className.replace(/_/g, ' ');
+    row.appendChild(label);
+
+    const inputs = ['confidence', 'iou'].map(() => {
+      const cell = document.createElement('td');
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.max = '1';
+      input.step = '0.05';
+      input.addEventListener('change', saveSettings);
+      cell.appendChild(input);
+      row.appendChild(cell);
+      return input;
+    });
+
+    layoutThresholdRows.appendChild(row);
+    return { className, confidence: inputs[0], iou: inputs[1] };
+  });
+
+  function readLayoutThresholds(): LayoutThresholds {
+    const thresholds = resolveLayoutThresholds();
+    const clamp = (value: string, fallback: number) => {
+      const n = Number(value);
+      return value !== '' && Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : fallback;
+    };
+    for (const { className, confidence, iou } of thresholdInputs) {
+      thresholds[className] = {
+        confidence: clamp(confidence.value, thresholds[className].confidence),
+        iou: clamp(iou.value, thresholds[className].iou),
+      };
+    }
+    return thresholds;
+  }
+
   // Collect current settings and persist
   function saveSettings() {
     api.saveSettings({
       translatorType: translatorSelect.value,
+      sourceLanguage: sourceLang.value,
       targetLanguage: targetLang.value,
       llmProvider: llmProvider.value,
       llmModel: llmModel.value,
       llmApiToken: llmApiToken.value,
       llmBaseUrl: llmBaseUrl.value,
       customPrompt: savedCustomPrompt,
+      workerThreads: Math.max(0, Math.floor(Number(workerThreads.value) || 0)),
+      maxConcurrentJobs: Math.max(1, Math.floor(Number(maxConcurrentJobs.value) || 1)),
+      debugOverlay: debugOverlay.checked,
+      exportJson: exportJson.checked,
+      layoutMode: layoutMode.value,
+      layoutModelId: layoutModel.value || DEFAULT_SETTINGS.layoutModelId,
+      layoutThresholds: readLayoutThresholds(),
+      translateTables: translateTables.checked,
+      protectBuiltins: protectBuiltins.checked,
+      protectPatterns: readProtectPatterns(),
+    });
+  }
+
+  // One pattern per line; an invalid one is reported here, and fails the job if kept
+  function readProtectPatterns(): string[] {
+    const patterns = protectPatterns.value.split('\n').map((line) => line.trim()).filter((line) => line !== '');
+    const invalid = patterns.filter((pattern) => {
+      try {
+        new RegExp(pattern, 'u');
+        return false;
+      } catch {
+        return true;
+      }
     });
+    protectPatternsError.textContent = invalid.length > 0 ? `Invalid pattern: ${invalid.join(', ')}` : '';
+    return patterns;
   }
 
   // Open prompt modal
@@ -78,6 +162,7 @@ export function initSettingsPanel(api: Window['electronAPI']) {
     updateTranslatorVisibility();
     saveSettings();
   });
+  sourceLang.addEventListener('change', saveSettings);
   targetLang.addEventListener('change', saveSettings);
   llmProvider.addEventListener('change', () => {
     populateModels(llmProvider.value);
@@ -86,6 +171,47 @@ export function initSettingsPanel(api: Window['electronAPI']) {
   llmModel.addEventListener('change', saveSettings);
   llmApiToken.addEventListener('change', saveSettings);
   llmBaseUrl.addEventListener('change', saveSettings);
+  workerThreads.addEventListener('change', saveSettings);
+  maxConcurrentJobs.addEventListener('change', saveSettings);
+  debugOverlay.addEventListener('change', saveSettings);
+  exportJson.addEventListener('change', saveSettings);
+  translateTables.addEventListener('change', saveSettings);
+  protectBuiltins.addEventListener('change', saveSettings);
+  protectPatterns.addEventListener('change', saveSettings);
+  layoutMode.addEventListener('change', () => {
+    updateLayoutModeVisibility();
+    saveSettings();
+  });
+  layoutModel.addEventListener('change', () => {
+    updateLayoutModelActions();
+    saveSettings();
+  });
+
+  // Import a local ONNX layout model and switch to it
+  layoutModelImportBtn.addEventListener('click', async () => {
+    const result = await api.importLayoutModel();
+    if (!result) return;
+    if (!result.success) {
+      layoutModelError.textContent = `Import failed: ${result.error}`;
+      return;
+    }
+    layoutModelError.textContent = '';
+    await populateLayoutModels(result.model!.id);
+    saveSettings();
+  });
+
+  // Remove the selected imported model; main falls back to the default model
+  layoutModelRemoveBtn.addEventListener('click', async () => {
+    await api.removeLayoutModel(layoutModel.value);
+    await populateLayoutModels(DEFAULT_SETTINGS.layoutModelId);
+    saveSettings();
+  });
+
+  // Clear translation cache
+  cacheClearBtn.addEventListener('click', async () => {
+    await api.clearTranslationCache();
+    refreshTranslationCacheInfo();
+  });
 
   // Populate model dropdown for a provider, preserving selected value if possible
   async function populateModels(provider: string, selectedModel?: string) {
@@ -109,18 +235,74 @@ export function initSettingsPanel(api: Window['electronAPI']) {
     }
   }
 
+  // The model picker only matters in model mode
+  function updateLayoutModeVisibility() {
+    layoutModelGroup.style.display = layoutMode.value === 'fast' ? 'none' : 'block';
+  }
+
+  // Only imported models can be removed
+  function updateLayoutModelActions() {
+    layoutModelRemoveBtn.disabled = !layoutModel.selectedOptions[0]?.dataset.imported;
+  }
+
+  // Fill the layout model dropdown, selecting the given model if it is still installed
+  async function populateLayoutModels(selectedId: string) {
+    const models = await api.listLayoutModels();
+    layoutModel.innerHTML = '';
+    for (const model of models) {
+      const opt = document.createElement('option');
+      opt.value = model.id;
+      opt.textContent = model.name;
+      opt.title = model.file;
+      if (!model.builtin) opt.dataset.imported = 'true';
+      layoutModel.appendChild(opt);
+    }
+    layoutModel.value = models.some((m) => m.id === selectedId) ? selectedId : DEFAULT_SETTINGS.layoutModelId;
+    updateLayoutModelActions();
+  }
+
   // Load settings on init
   api.getSettings().then((settings) => {
     if (settings) {
       translatorSelect.value = settings.translatorType || 'google';
+      sourceLang.value = settings.sourceLanguage || DEFAULT_SETTINGS.sourceLanguage;
       targetLang.value = settings.targetLanguage || 'zh-CN';
       llmProvider.value = settings.llmProvider || 'openai';
       llmApiToken.value = settings.llmApiToken || '';
       llmBaseUrl.value = settings.llmBaseUrl || '';
+      workerThreads.value = String(settings.workerThreads ?? DEFAULT_SETTINGS.workerThreads);
+      maxConcurrentJobs.value = String(settings.maxConcurrentJobs ?? DEFAULT_SETTINGS.maxConcurrentJobs);
+      debugOverlay.checked = !!settings.debugOverlay;
+      exportJson.checked = !!settings.exportJson;
+      translateTables.checked = !!settings.translateTables;
+      protectBuiltins.checked = settings.protectBuiltins ?? DEFAULT_SETTINGS.protectBuiltins;
+      protectPatterns.value = (settings.protectPatterns || []).join('\n');
+      const thresholds = resolveLayoutThresholds(settings.layoutThresholds);
+      for (const { className, confidence, iou } of thresholdInputs) {
+        confidence.value = String(thresholds[className].confidence);
+        iou.value = String(thresholds[className].iou);
+      }
       savedCustomPrompt = settings.customPrompt || DEFAULT_SETTINGS.customPrompt;
       updateTranslatorVisibility();
 
       populateModels(settings.llmProvider || 'openai', settings.llmModel);
+      layoutMode.value = settings.layoutMode || DEFAULT_SETTINGS.layoutMode;
+      updateLayoutModeVisibility();
+      populateLayoutModels(settings.layoutModelId || DEFAULT_SETTINGS.layoutModelId);
     }
   });
+
+  refreshTranslationCacheInfo();
+}
+
+/**
+ * Show the current translation cache size in the settings panel.
+ */
+export async function refreshTranslationCacheInfo() {
+  const cacheInfo = document.getElementById('cache-info')!;
+  const { entries, bytes } = await window.electronAPI.getTranslationCacheInfo();
+  const size = bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+  cacheInfo.textContent = `${entries} entries · ${size}`;
 }
@@ -2,8 +2,50 @@
  * Renderer entry point - wires up UI components to IPC API.
  */
 import { initDropZone } from './components/drop-zone';
-import { initProgressBar } from './components/progress-bar';
-import { initSettingsPanel } from './components/settings-panel';
+import { initProgressBar, renderProgress, formatDuration, formatStageTimings, ProgressData } from './components/progress-bar';
+import { initSettingsPanel, refreshTranslationCacheInfo } from './components/settings-panel';
+
+type Usage = { inputTokens: number; outputTokens: number; totalCost: number; cacheHits: number };
+type RegionWarning = { page: number; regionIndex: number; className: string; text: string; message: string };
+
+interface JobInfo {
+  id: string;
+  inputPath: string;
+  state: 'queued' | 'running' | 'paused' | 'cancelled' | 'done' | 'failed';
+  progress?: ProgressData;
+  result?: {
+    outputPath: string;
+    debugOutputPath?: string;
+    jsonOutputPath?: string;
+    usage?: Usage;
+    warnings: RegionWarning[];
+    timings: Record<string, number>;
+    elapsedMs: number;
+    layoutFallback?: string;
+    ocrUnavailable?: string;
+    droppedText: RegionWarning[];
+  };
+  error?: string;
+}
+
+interface LayoutModelInfo {
+  id: string;
+  name: string;
+  file: string;
+  /** Bundled with the app; cannot be removed */
+  builtin?: boolean;
+}
+
+interface CostEstimate {
+  pages: number;
+  regions: number;
+  characters: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD; null when the translator is free or the model has no pricing */
+  cost: number | null;
+  model?: string;
+}
 
 declare global {
   interface Window {
@@ -11,13 +53,13 @@ declare global {
       getSettings: () => Promise<any>;
       saveSettings: (settings: any) => Promise<boolean>;
       openFileDialog: () => Promise<string[] | null>;
-      translatePdf: (inputPath: string, selectedPages?: number[], customPrompt?: string) => Promise<{
-        success: boolean;
-        outputPath?: string;
-        error?: string;
-        usage?: { inputTokens: number; outputTokens: number; totalCost: number };
-      }>;
-      cancelTranslation: () => void;
+      startJob: (inputPath: string, selectedPages?: number[], customPrompt?: string, forceOcr?: boolean) => Promise<JobInfo>;
+      listJobs: () => Promise<JobInfo[]>;
+      pauseJob: (jobId: string) => Promise<boolean>;
+      resumeJob: (jobId: string) => Promise<boolean>;
+      cancelJob: (jobId: string) => Promise<boolean>;
+      clearFinishedJobs: () => Promise<boolean>;
+      onJobUpdate: (callback: (event: any, job: JobInfo) => void) => () => void;
       getPdfThumbnails: (filePath: string) => Promise<{ pageCount: number; thumbnails: string[] }>;
       openFile: (filePath: string) => Promise<string>;
       openFolder: (filePath: string) => Promise<void>;
@@ -27,23 +69,81 @@ declare global {
       getAppVersion: () => Promise<string>;
       checkForUpdates: () => Promise<{ currentVersion: string; latestVersion: string; isOutdated: boolean; releaseUrl: string }>;
       openExternalUrl: (url: string) => Promise<void>;
+      getTranslationCacheInfo: () => Promise<{ entries: number; bytes: number }>;
+      clearTranslationCache: () => Promise<boolean>;
+      getResumeInfo: (inputPath: string, forceOcr?: boolean) => Promise<{ completedPages: number }>;
+      getOcrStatus: () => Promise<{ available: boolean; modelsDir: string }>;
+      openJsonDialog: () => Promise<string | null>;
+      listLayoutModels: () => Promise<LayoutModelInfo[]>;
+      importLayoutModel: () => Promise<{ success: boolean; model?: LayoutModelInfo; error?: string } | null>;
+      removeLayoutModel: (id: string) => Promise<boolean>;
+      estimatePdf: (inputPath: string, selectedPages?: number[], customPrompt?: string, forceOcr?: boolean) => Promise<{ success: boolean; estimate?: CostEstimate; error?: string; cancelled?: boolean }>;
+      cancelEstimate: (inputPath: string) => Promise<boolean>;
+      onEstimateProgress: (callback: (event: any, data: any) => void) => () => void;
+      typesetPdf: (inputPath: string, documentPath: string) => Promise<{ success: boolean; outputPath?: string; error?: string }>;
     };
   }
 }
 
+type FileStatus = 'ready' | 'queued' | 'processing' | 'paused' | 'cancelled' | 'done' | 'failed';
+
+const JOB_STATUS: Record<JobInfo['state'], FileStatus> = {
+  queued: 'queued',
+  running: 'processing',
+  paused: 'paused',
+  cancelled: 'cancelled',
+  done: 'done',
+  failed: 'failed',
+};
+
 interface FileEntry {
   path: string;
   name: string;
   selectedPages: number[] | null;
-  status: 'ready' | 'processing' | 'done' | 'failed';
+  /** Read every page with OCR instead of using the PDF's text layer */
+  forceOcr?: boolean;
+  status: FileStatus;
+  /** Job in the main process translating this file */
+  jobId?: string;
+  progress?: ProgressData;
   outputPath?: string;
+  debugOutputPath?: string;
+  /** Exported translation document, when "Export translations as JSON" is on */
+  jsonOutputPath?: string;
   error?: string;
-  usage?: { inputTokens: number; outputTokens: number; totalCost: number };
+  usage?: Usage;
+  /** Regions left untranslated because the translator kept failing */
+  warnings?: RegionWarning[];
+  /** Time per pipeline stage of the finished job */
+  timings?: Record<string, number>;
+  elapsedMs?: number;
+  /** Why the fast layout was used instead of the layout model */
+  layoutFallback?: string;
+  /** Pages that needed OCR but could not get it */
+  ocrUnavailable?: string;
+  /** Regions whose translation lost protected text or formulas */
+  droppedText?: RegionWarning[];
+  /** Pages already finished by an interrupted run; > 0 enables "Resume" */
+  resumablePages?: number;
+  /** Pre-flight estimate; reset when the page selection changes */
+  estimate?: CostEstimate;
+  /** Progress text while an estimate is running */
+  estimateStatus?: string;
+  estimateError?: string;
 }
 
 let files: FileEntry[] = [];
 let activeFileIndex = 0;
-let isTranslating = false;
+let isTypesetting = false;
+/** Whether the OCR models are installed; "Force OCR" needs them */
+let ocrStatus: { available: boolean; modelsDir: string } = { available: true, modelsDir: '' };
+/** Updates for jobs whose startJob() call hasn't returned yet */
+const pendingJobUpdates = new Map<string, JobInfo>();
+
+/** Whether the file has a job that hasn't finished */
+function isActive(entry: FileEntry): boolean {
+  return entry.status === 'queued' || entry.status === 'processing' || entry.status === 'paused';
+}
 
 function init() {
   const api = window.electronAPI;
@@ -53,29 +153,38 @@ function init() {
   initProgressBar();
   initSettingsPanel(api);
 
-  // Progress listener
+  api.onJobUpdate((_event, job) => applyJobUpdate(job));
+
+  api.getOcrStatus().then((status) => {
+    ocrStatus = status;
+    renderFileList();
+  });
+
+  // Progress of typesetting from a translation document
   api.onProgress((_event, data) => {
-    const progressSection = document.getElementById('progress-section')!;
-    const progressStage = document.getElementById('progress-stage')!;
-    const progressPages = document.getElementById('progress-pages')!;
-    const progressBar = document.getElementById('progress-bar')!;
-
-    progressSection.style.display = 'block';
-    progressStage.textContent = data.stage;
-    if (data.totalPages > 0) {
-      progressPages.textContent = `Page ${data.currentPage} / ${data.totalPages}`;
-    }
-    progressBar.style.width = `${data.percent}%`;
+    if (!isTypesetting) return;
+    renderProgress(data.stage, data);
   });
 
-  // Cancel button
+  api.onEstimateProgress((_event, data) => {
+    const entry = files.find(f => f.path === data.inputPath && f.estimateStatus);
+    if (!entry) return;
+    entry.estimateStatus = data.totalPages > 0
+      ? `Estimating ${data.currentPage}/${data.totalPages}...`
+      : 'Estimating...';
+    renderFileList();
+  });
+
+  // Cancel button: cancels every unfinished job
   document.getElementById('cancel-btn')!.addEventListener('click', () => {
-    api.cancelTranslation();
+    for (const entry of files) {
+      if (entry.jobId && isActive(entry)) api.cancelJob(entry.jobId);
+    }
   });
 
   // Translate button
   document.getElementById('translate-btn')!.addEventListener('click', () => {
-    if (files.length > 0 && !isTranslating) {
+    if (files.length > 0 && !isTypesetting) {
       handleTranslateAll();
     }
   });
@@ -145,13 +254,15 @@ function handleFilesSelect(filePaths: string[]) {
   const existingPaths = new Set(files.map(f => f.path));
   for (const fp of filePaths) {
     if (!existingPaths.has(fp)) {
-      files.push({
+      const entry: FileEntry = {
         path: fp,
         name: fp.split('/').pop() || fp,
         selectedPages: null,
         status: 'ready',
-      });
+      };
+      files.push(entry);
       existingPaths.add(fp);
+      refreshResumeInfo(entry);
     }
   }
 
@@ -201,22 +312,169 @@ function renderFileList() {
     // Status label
     const statusLabel = document.createElement('span');
     statusLabel.className = 'status-label';
-    const statusConfig: Record<string, { text: string; color: string }> = {
+    const statusConfig: Record<FileStatus, { text: string; color: string }> = {
       ready: { text: 'Ready', color: 'var(--text-secondary)' },
+      queued: { text: 'Queued', color: 'var(--text-secondary)' },
       processing: { text: 'Processing...', color: 'var(--primary)' },
+      paused: { text: 'Paused', color: 'var(--warning)' },
+      cancelled: { text: 'Cancelled', color: 'var(--text-secondary)' },
       done: { text: 'Done', color: '#34c759' },
       failed: { text: 'Failed', color: 'var(--danger)' },
     };
     const sc = statusConfig[entry.status];
     statusLabel.textContent = sc.text;
     statusLabel.style.color = sc.color;
+    if (entry.status === 'processing' && entry.progress) {
+      statusLabel.textContent = `${Math.round(entry.progress.percent)}%`;
+      statusLabel.title = entry.progress.stage;
+    }
     if (entry.status === 'failed' && entry.error) {
       statusLabel.title = entry.error;
     }
+    if (entry.status === 'done' && entry.timings) {
+      statusLabel.title = `Completed in ${formatDuration(entry.elapsedMs || 0)}\n${formatStageTimings(entry.timings)}`;
+    }
+    if (entry.status === 'done' && entry.warnings && entry.warnings.length > 0) {
+      statusLabel.textContent = `Done with ${entry.warnings.length} untranslated region(s)`;
+      statusLabel.style.color = 'var(--warning)';
+      statusLabel.title = entry.warnings
+        .map(w => `Page ${w.page}, ${w.className}: ${w.message}`)
+        .join('\n');
+    }
+    if (entry.status === 'done' && entry.droppedText && entry.droppedText.length > 0) {
+      statusLabel.title += '\n' + entry.droppedText
+        .map(w => `Page ${w.page}, ${w.className}: ${w.message}`)
+        .join('\n');
+    }
     meta.appendChild(statusLabel);
 
-    // Remove button (only when not translating)
-    if (!isTranslating) {
+    // Estimate result or progress
+    if (entry.estimateStatus || entry.estimateError || entry.estimate) {
+      const estimateLabel = document.createElement('span');
+      estimateLabel.className = 'estimate-label';
+      if (entry.estimateStatus) {
+        estimateLabel.textContent = entry.estimateStatus;
+      } else if (entry.estimateError) {
+        estimateLabel.textContent = 'Estimate failed';
+        estimateLabel.style.color = 'var(--danger)';
+        estimateLabel.title = entry.estimateError;
+      } else {
+        const est = entry.estimate!;
+        const tokens = formatTokens(est.inputTokens + est.outputTokens);
+        estimateLabel.textContent = est.cost !== null
+          ? `~${tokens} tokens · ~$${est.cost.toFixed(2)}`
+          : `~${tokens} tokens`;
+        estimateLabel.title = [
+          `${est.regions} region(s) on ${est.pages} page(s)`,
+          `${est.characters.toLocaleString()} characters`,
+          `~${formatTokens(est.inputTokens)} input / ~${formatTokens(est.outputTokens)} output tokens`,
+          est.model ? `Priced for ${est.model}` : 'No price: Google Translate or model without pricing',
+        ].join('\n');
+      }
+      meta.appendChild(estimateLabel);
+    }
+
+    const idle = !isTypesetting && !isActive(entry);
+
+    // OCR every page, e.g. for scans whose embedded text layer is poor
+    const ocrToggle = document.createElement('label');
+    ocrToggle.className = 'ocr-toggle';
+    ocrToggle.title = ocrStatus.available
+      ? 'Ignore the text layer and read every page with OCR'
+      : `OCR models are not installed. Put ppocr_det.onnx, ppocr_rec.onnx and ppocr_keys.txt in ${ocrStatus.modelsDir}`;
+    ocrToggle.addEventListener('click', (e) => e.stopPropagation());
+    const ocrCheckbox = document.createElement('input');
+    ocrCheckbox.type = 'checkbox';
+    ocrCheckbox.checked = !!entry.forceOcr;
+    ocrCheckbox.disabled = !idle || (!ocrStatus.available && !entry.forceOcr);
+    ocrCheckbox.addEventListener('change', () => {
+      entry.forceOcr = ocrCheckbox.checked;
+      // The estimate depends on which text is read
+      entry.estimate = undefined;
+      entry.estimateError = undefined;
+      // ...and so do the checkpoints of an interrupted run
+      refreshResumeInfo(entry);
+    });
+    ocrToggle.append(ocrCheckbox, 'Force OCR');
+    meta.appendChild(ocrToggle);
+
+    // Pause / resume / cancel for unfinished jobs
+    if (entry.jobId && isActive(entry)) {
+      const jobId = entry.jobId;
+      const pauseBtn = document.createElement('button');
+      pauseBtn.className = 'btn btn-sm job-btn';
+      pauseBtn.textContent = entry.status === 'paused' ? 'Resume' : 'Pause';
+      pauseBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (entry.status === 'paused') {
+          window.electronAPI.resumeJob(jobId);
+        } else {
+          window.electronAPI.pauseJob(jobId);
+        }
+      });
+      meta.appendChild(pauseBtn);
+
+      const cancelBtn = document.createElement('button');
+      cancelBtn.className = 'btn btn-sm job-btn';
+      cancelBtn.textContent = 'Cancel';
+      cancelBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        window.electronAPI.cancelJob(jobId);
+      });
+      meta.appendChild(cancelBtn);
+    }
+
+    // Estimate button, or cancel while one is running
+    if (entry.estimateStatus) {
+      const cancelEstimateBtn = document.createElement('button');
+      cancelEstimateBtn.className = 'btn btn-sm estimate-btn';
+      cancelEstimateBtn.textContent = 'Cancel';
+      cancelEstimateBtn.title = 'Stop the estimate';
+      cancelEstimateBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        window.electronAPI.cancelEstimate(entry.path);
+      });
+      meta.appendChild(cancelEstimateBtn);
+    } else if (idle) {
+      const estimateBtn = document.createElement('button');
+      estimateBtn.className = 'btn btn-sm estimate-btn';
+      estimateBtn.textContent = 'Estimate';
+      estimateBtn.title = 'Analyse the document and estimate tokens and cost without translating';
+      estimateBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        estimateFile(entry);
+      });
+      meta.appendChild(estimateBtn);
+    }
+
+    // Resume button for partially finished files
+    if (idle && entry.status !== 'done' && entry.resumablePages) {
+      const resumeBtn = document.createElement('button');
+      resumeBtn.className = 'btn btn-sm resume-btn';
+      resumeBtn.textContent = 'Resume';
+      resumeBtn.title = `${entry.resumablePages} page(s) already translated`;
+      resumeBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        translateFiles([entry]);
+      });
+      meta.appendChild(resumeBtn);
+    }
+
+    // Typeset from an edited translation document
+    if (idle) {
+      const applyBtn = document.createElement('button');
+      applyBtn.className = 'btn btn-sm apply-json-btn';
+      applyBtn.textContent = 'Apply JSON';
+      applyBtn.title = 'Write the PDF from an exported (and edited) translation document';
+      applyBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        applyTranslationDocument(entry);
+      });
+      meta.appendChild(applyBtn);
+    }
+
+    // Remove button (only when the file has no unfinished job)
+    if (idle) {
       const removeBtn = document.createElement('button');
       removeBtn.className = 'remove-btn';
       removeBtn.textContent = '\u00d7';
@@ -250,6 +508,42 @@ function renderFileList() {
   });
 }
 
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+/**
+ * Run the pre-flight estimate for one file and show it in the file list.
+ */
+async function estimateFile(entry: FileEntry) {
+  const api = window.electronAPI;
+  const settings = await api.getSettings();
+  entry.estimateStatus = 'Estimating...';
+  entry.estimate = undefined;
+  entry.estimateError = undefined;
+  renderFileList();
+
+  const result = await api.estimatePdf(entry.path, entry.selectedPages ?? undefined, settings.customPrompt || undefined, entry.forceOcr);
+  entry.estimateStatus = undefined;
+  if (result.success && result.estimate) {
+    entry.estimate = result.estimate;
+  } else if (!result.cancelled) {
+    entry.estimateError = result.error || 'Unknown error';
+  }
+  renderFileList();
+}
+
+/**
+ * Ask the main process whether an interrupted run left checkpoints for this file.
+ */
+async function refreshResumeInfo(entry: FileEntry) {
+  const { completedPages } = await window.electronAPI.getResumeInfo(entry.path, entry.forceOcr);
+  entry.resumablePages = completedPages;
+  renderFileList();
+}
+
 function updateSelectPagesButton() {
   const selectBtn = document.getElementById('select-pages-btn')!;
   if (files.length === 0) return;
@@ -318,6 +612,8 @@ function confirmPageSelection() {
   const totalThumbs = thumbs.length;
   const entry = files[activeFileIndex];
   if (entry) {
+    entry.estimate = undefined;
+    entry.estimateError = undefined;
     if (pages.length === totalThumbs || pages.length === 0) {
       entry.selectedPages = null;
     } else {
@@ -353,52 +649,138 @@ function updateToggleAllButton() {
   document.getElementById('modal-toggle-all')!.textContent = allChecked ? 'Deselect All' : 'Select All';
 }
 
-async function handleTranslateAll() {
+/**
+ * Let the user pick a translation document and write the PDF from it,
+ * without re-running layout analysis or translation.
+ */
+async function applyTranslationDocument(entry: FileEntry) {
   const api = window.electronAPI;
-  isTranslating = true;
+  const documentPath = await api.openJsonDialog();
+  if (!documentPath) return;
 
-  // Hide translate button during translation
+  isTypesetting = true;
+  entry.status = 'processing';
+  renderFileList();
   document.getElementById('translate-actions')!.style.display = 'none';
-
-  // Show progress, hide output
+  document.getElementById('output-section')!.style.display = 'none';
   document.getElementById('progress-section')!.style.display = 'block';
+  document.getElementById('progress-stage')!.textContent = `Typesetting ${entry.name}...`;
+  document.getElementById('progress-pages')!.textContent = '';
+  document.getElementById('progress-bar')!.style.width = '0%';
+
+  const result = await api.typesetPdf(entry.path, documentPath);
+  isTypesetting = false;
+
+  const outputMessage = document.getElementById('output-message')!;
+  if (result.success && result.outputPath) {
+    entry.status = 'done';
+    entry.outputPath = result.outputPath;
+    entry.warnings = undefined;
+    entry.droppedText = undefined;
+    outputMessage.textContent = `PDF written from translation document.\n${result.outputPath}`;
+    document.getElementById('open-file-btn')!.style.display = 'inline-block';
+    document.getElementById('open-folder-btn')!.style.display = 'inline-block';
+  } else {
+    entry.status = 'failed';
+    entry.error = result.error || 'Unknown error';
+    outputMessage.textContent = `Typesetting failed.\n${entry.error}`;
+    document.getElementById('open-file-btn')!.style.display = 'none';
+    document.getElementById('open-folder-btn')!.style.display = 'none';
+  }
+
+  renderFileList();
+  document.getElementById('progress-section')!.style.display = 'none';
+  document.getElementById('output-section')!.style.display = 'block';
+  document.getElementById('translate-actions')!.style.display = 'flex';
+}
+
+function handleTranslateAll() {
+  return translateFiles(files.filter(f => f.status === 'ready' || f.status === 'failed' || f.status === 'cancelled'));
+}
+
+/**
+ * Queue a translation job per file. Jobs run in the main process; their
+ * progress and results arrive through onJobUpdate.
+ */
+async function translateFiles(filesToProcess: FileEntry[]) {
+  const api = window.electronAPI;
+
   document.getElementById('output-section')!.style.display = 'none';
-  document.getElementById('cancel-btn')!.style.display = 'inline-block';
 
   // Load custom prompt from settings
   const settings = await api.getSettings();
   const customPrompt = settings.customPrompt || undefined;
 
-  const filesToProcess = files.filter(f => f.status === 'ready' || f.status === 'failed');
-
-  for (let i = 0; i < filesToProcess.length; i++) {
-    const entry = filesToProcess[i];
-    entry.status = 'processing';
-    activeFileIndex = files.indexOf(entry);
-    renderFileList();
-
-    // Reset progress
-    document.getElementById('progress-stage')!.textContent = `Translating ${entry.name}...`;
-    document.getElementById('progress-pages')!.textContent = `File ${i + 1} / ${filesToProcess.length}`;
-    document.getElementById('progress-bar')!.style.width = '0%';
+  for (const entry of filesToProcess) {
+    entry.status = 'queued';
+    entry.error = undefined;
+    entry.progress = undefined;
+    const job = await api.startJob(entry.path, entry.selectedPages ?? undefined, customPrompt, entry.forceOcr);
+    entry.jobId = job.id;
+    // Updates sent while startJob was in flight couldn't be matched to the file yet
+    applyJobUpdate(pendingJobUpdates.get(job.id) || job);
+    pendingJobUpdates.delete(job.id);
+  }
+}
 
-    const result = await api.translatePdf(entry.path, entry.selectedPages ?? undefined, customPrompt);
+function applyJobUpdate(job: JobInfo) {
+  const entry = files.find(f => f.jobId === job.id);
+  if (!entry) {
+    pendingJobUpdates.set(job.id, job);
+    return;
+  }
 
-    if (result.success && result.outputPath) {
-      entry.status = 'done';
-      entry.outputPath = result.outputPath;
-      entry.usage = result.usage;
-    } else {
-      entry.status = 'failed';
-      entry.error = result.error || 'Unknown error';
-    }
+  const wasActive = isActive(entry);
+  const previousStatus = entry.status;
+  entry.status = JOB_STATUS[job.state];
+  entry.progress = job.progress;
+
+  if (job.state === 'done' && job.result) {
+    entry.outputPath = job.result.outputPath;
+    entry.debugOutputPath = job.result.debugOutputPath;
+    entry.jsonOutputPath = job.result.jsonOutputPath;
+    entry.usage = job.result.usage;
+    entry.warnings = job.result.warnings;
+    entry.timings = job.result.timings;
+    entry.elapsedMs = job.result.elapsedMs;
+    entry.layoutFallback = job.result.layoutFallback;
+    entry.ocrUnavailable = job.result.ocrUnavailable;
+    entry.droppedText = job.result.droppedText;
+    entry.resumablePages = 0;
+  } else if (job.state === 'failed' || job.state === 'cancelled') {
+    entry.error = job.state === 'cancelled' ? 'Cancelled' : job.error || 'Unknown error';
+    if (wasActive) refreshResumeInfo(entry);
+  }
 
+  if (entry.status !== previousStatus || entry.status === 'processing') {
     renderFileList();
   }
+  renderJobProgress();
+
+  if (wasActive && !isActive(entry) && !files.some(isActive)) {
+    showTranslationSummary();
+  }
+}
 
-  document.getElementById('cancel-btn')!.style.display = 'none';
-  isTranslating = false;
+/**
+ * Show the progress of the selected file's job, or of the first running one.
+ */
+function renderJobProgress() {
+  const active = files.filter(isActive);
+  document.getElementById('cancel-btn')!.style.display = active.length > 0 ? 'inline-block' : 'none';
+  if (active.length === 0) return;
+
+  const selected = files[activeFileIndex];
+  const focus = selected && isActive(selected)
+    ? selected
+    : active.find(f => f.status === 'processing') || active[0];
+
+  const progress = focus.progress;
+  const stage = focus.status === 'processing' ? progress?.stage || 'Starting...' : focus.status === 'paused' ? 'Paused' : 'Queued';
+  renderProgress(`${focus.name}: ${stage}`, progress, active.length > 1 ? `${active.length} jobs` : undefined);
+}
 
+function showTranslationSummary() {
   // Show output section with summary
   const outputSection = document.getElementById('output-section')!;
   const outputMessage = document.getElementById('output-message')!;
@@ -411,14 +793,30 @@ async function handleTranslateAll() {
     if (failedCount > 0) {
       msg += ` ${failedCount} file(s) failed.`;
     }
+    const untranslatedCount = files.reduce((n, f) => n + (f.status === 'done' ? f.warnings?.length || 0 : 0), 0);
+    if (untranslatedCount > 0) {
+      msg += `\nDone with ${untranslatedCount} untranslated region(s); their original text was kept.`;
+    }
+    const droppedCount = files.reduce((n, f) => n + (f.status === 'done' ? f.droppedText?.length || 0 : 0), 0);
+    if (droppedCount > 0) {
+      msg += `\nIn ${droppedCount} region(s) the translator dropped protected text or formulas; see the file's status for details.`;
+    }
+    const fallbacks = files.filter(f => f.status === 'done' && f.layoutFallback);
+    if (fallbacks.length > 0) {
+      msg += `\n${fallbacks[0].layoutFallback}.`;
+    }
+    for (const f of files.filter(f => f.status === 'done' && f.ocrUnavailable)) {
+      msg += `\n${f.name}: ${f.ocrUnavailable}.`;
+    }
     // Show token usage for all completed files
     const totalUsage = files
-      .filter(f => f.usage && (f.usage.inputTokens > 0 || f.usage.outputTokens > 0))
+      .filter(f => f.usage && (f.usage.inputTokens > 0 || f.usage.outputTokens > 0 || f.usage.cacheHits > 0))
       .reduce((acc, f) => ({
         inputTokens: acc.inputTokens + (f.usage?.inputTokens || 0),
         outputTokens: acc.outputTokens + (f.usage?.outputTokens || 0),
         totalCost: acc.totalCost + (f.usage?.totalCost || 0),
-      }), { inputTokens: 0, outputTokens: 0, totalCost: 0 });
+        cacheHits: acc.cacheHits + (f.usage?.cacheHits || 0),
+      }), { inputTokens: 0, outputTokens: 0, totalCost: 0, cacheHits: 0 });
 
     if (totalUsage.inputTokens > 0 || totalUsage.outputTokens > 0) {
       const fmt = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
@@ -427,19 +825,35 @@ async function handleTranslateAll() {
         msg += ` · Cost: $${totalUsage.totalCost.toFixed(4)}`;
       }
     }
+    const debugOutputs = files
+      .filter(f => f.status === 'done' && f.debugOutputPath)
+      .map(f => f.debugOutputPath);
+    if (debugOutputs.length > 0) {
+      msg += `\nDebug overlay: ${debugOutputs.join(', ')}`;
+    }
+    const jsonOutputs = files
+      .filter(f => f.status === 'done' && f.jsonOutputPath)
+      .map(f => f.jsonOutputPath);
+    if (jsonOutputs.length > 0) {
+      msg += `\nTranslation document: ${jsonOutputs.join(', ')}`;
+    }
+    if (totalUsage.cacheHits > 0) {
+      msg += `\n${totalUsage.cacheHits} region(s) reused from translation cache`;
+    }
     outputMessage.textContent = msg;
     document.getElementById('open-file-btn')!.style.display = 'inline-block';
     document.getElementById('open-folder-btn')!.style.display = 'inline-block';
   } else {
     const errors = files
-      .filter(f => f.status === 'failed' && f.error)
+      .filter(f => (f.status === 'failed' || f.status === 'cancelled') && f.error)
       .map(f => `${f.name}: ${f.error}`);
-    outputMessage.textContent = `All files failed to translate.\n${errors.join('\n')}`;
+    outputMessage.textContent = `No files were translated.\n${errors.join('\n')}`;
     document.getElementById('open-file-btn')!.style.display = 'none';
     document.getElementById('open-folder-btn')!.style.display = 'none';
   }
 
   outputSection.style.display = 'block';
+  refreshTranslationCacheInfo();
 
   // Re-show translate button for re-translation
   document.getElementById('translate-actions')!.style.display = 'flex';
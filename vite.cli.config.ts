@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite';
+
+// Standalone Node build of the headless CLI (src/cli). Dependencies stay
+// external and are resolved from node_modules at runtime.
+// https://vitejs.dev/config
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: '.vite/cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        pdf2zh: 'src/cli/index.ts',
+        // Worker thread entry, loaded from next to the CLI bundle
+        'pipeline-worker': 'src/main/pipeline/pipeline-worker.ts',
+      },
+      output: {
+        format: 'cjs',
+        entryFileNames: '[name].js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});